@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+interface AdminUser {
+    id: number;
+    username: string;
+    role: string;
+    createdAt: string;
+    disabledAt: string | null;
+    lockedUntil: string | null;
+    locked: boolean;
+    totpEnabled: boolean;
+    counts: { todos: number; videoGames: number; blogPosts: number; gameRankings: number; paintingProjects: number };
+}
+
+interface Role {
+    id: number;
+    name: string;
+}
+
+interface AdminUsersProps {
+    authToken: string;
+    currentUserId: number;
+    onAuthError: () => Promise<string | null>;
+}
+
+const PAGE_SIZE = 20;
+
+export default function AdminUsers({ authToken, currentUserId, onAuthError }: AdminUsersProps) {
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [roles, setRoles] = useState<Role[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [search, setSearch] = useState('');
+    const [status, setStatus] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    // Reset token just issued, displayed once so it can be handed to the user
+    const [issuedReset, setIssuedReset] = useState<{ username: string; token: string; expiresAt: string } | null>(null);
+
+    const request = (url: string, options: RequestInit = {}) =>
+        authFetch(url, {
+            ...options,
+            headers: {
+                'Content-Type': 'application/json'
+            }
+        }, authToken, onAuthError);
+
+    const fetchUsers = async () => {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        if (search) params.set('search', search);
+        if (status) params.set('status', status);
+
+        try {
+            const res = await request(`/api/admin/users?${params.toString()}`);
+            if (res.ok) {
+                const data = await res.json();
+                setUsers(data.users);
+                setTotal(data.total);
+            } else {
+                setError('Failed to load users');
+            }
+        } catch (err) {
+            setError('Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchUsers();
+    }, [page, status, authToken]);
+
+    useEffect(() => {
+        request('/api/admin/roles')
+            .then(res => (res.ok ? res.json() : []))
+            .then(setRoles)
+            .catch(() => setRoles([]));
+    }, [authToken]);
+
+    // Run an action on one user, then reload the list
+    const runAction = async (url: string, options: RequestInit = {}) => {
+        setError('');
+        try {
+            const res = await request(url, options);
+            if (res.ok) {
+                fetchUsers();
+                return res.status === 204 ? null : res.json();
+            }
+            const data = await res.json();
+            setError(data.error || 'Operation failed');
+        } catch (err) {
+            setError('Network error');
+        }
+        return null;
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setPage(1);
+        fetchUsers();
+    };
+
+    const changeRole = (user: AdminUser, role: string) =>
+        runAction(`/api/admin/users/${user.id}/role`, { method: 'PUT', body: JSON.stringify({ role }) });
+
+    const toggleDisabled = (user: AdminUser) => {
+        if (!user.disabledAt && !confirm(`Désactiver le compte ${user.username} ? Ses sessions seront fermées.`)) return;
+        runAction(`/api/admin/users/${user.id}/${user.disabledAt ? 'enable' : 'disable'}`, { method: 'POST' });
+    };
+
+    const unlock = (user: AdminUser) => runAction(`/api/admin/users/${user.id}/unlock`, { method: 'POST' });
+
+    const resetTwoFactor = (user: AdminUser) => {
+        if (!confirm(`Retirer la double authentification de ${user.username} ?`)) return;
+        runAction(`/api/admin/users/${user.id}/2fa/reset`, { method: 'POST' });
+    };
+
+    const issuePasswordReset = async (user: AdminUser) => {
+        const data = await runAction(`/api/admin/users/${user.id}/password-reset`, { method: 'POST' });
+        if (data) setIssuedReset({ username: data.username, token: data.token, expiresAt: data.expiresAt });
+    };
+
+    const deleteUser = (user: AdminUser) => {
+        const { todos, videoGames, blogPosts, gameRankings, paintingProjects } = user.counts;
+        if (!confirm(`Supprimer ${user.username} ? ${todos} tâche(s), ${videoGames} jeu(x), ${blogPosts} article(s), ${gameRankings} classement(s) et ${paintingProjects} projet(s) vous seront réattribués.`)) return;
+        runAction(`/api/admin/users/${user.id}`, { method: 'DELETE' });
+    };
+
+    const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+    if (loading) return <div>Chargement...</div>;
+
+    return (
+        <div className="admin-users-container">
+            <h2>Utilisateurs</h2>
+
+            {error && <div className="error-message">{error}</div>}
+
+            {issuedReset && (
+                <div className="admin-users-reset glass">
+                    <p>
+                        Code de réinitialisation pour <strong>{issuedReset.username}</strong>, valable jusqu'au{' '}
+                        {new Date(issuedReset.expiresAt).toLocaleString('fr-FR')} :
+                    </p>
+                    <code>{issuedReset.token}</code>
+                    <button className="auth-toggle" onClick={() => setIssuedReset(null)}>Fermer</button>
+                </div>
+            )}
+
+            <form onSubmit={handleSearch} className="admin-users-filters">
+                <input
+                    type="text"
+                    placeholder="Rechercher un identifiant"
+                    aria-label="Rechercher un identifiant"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <select value={status} onChange={(e) => { setStatus(e.target.value); setPage(1); }} aria-label="Statut">
+                    <option value="">Tous</option>
+                    <option value="active">Actifs</option>
+                    <option value="disabled">Désactivés</option>
+                    <option value="locked">Verrouillés</option>
+                </select>
+                <button type="submit" className="add-btn">Rechercher</button>
+            </form>
+
+            <table className="admin-users-table">
+                <thead>
+                    <tr>
+                        <th>Identifiant</th>
+                        <th>Rôle</th>
+                        <th>Statut</th>
+                        <th>Inscription</th>
+                        <th>Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {users.map(user => {
+                        const isSelf = user.id === currentUserId;
+                        return (
+                            <tr key={user.id} className={user.disabledAt ? 'disabled' : ''}>
+                                <td>{user.username}{user.totpEnabled && ' 🔐'}</td>
+                                <td>
+                                    <select
+                                        value={user.role}
+                                        disabled={isSelf}
+                                        onChange={(e) => changeRole(user, e.target.value)}
+                                        aria-label={`Rôle de ${user.username}`}
+                                    >
+                                        {roles.map(role => <option key={role.id} value={role.name}>{role.name}</option>)}
+                                    </select>
+                                </td>
+                                <td>
+                                    {user.disabledAt ? 'Désactivé' : user.locked ? 'Verrouillé' : 'Actif'}
+                                </td>
+                                <td>{new Date(user.createdAt).toLocaleDateString('fr-FR')}</td>
+                                <td className="admin-users-actions">
+                                    {user.locked && <button onClick={() => unlock(user)}>Déverrouiller</button>}
+                                    <button onClick={() => issuePasswordReset(user)}>Réinitialiser le mot de passe</button>
+                                    {user.totpEnabled && <button onClick={() => resetTwoFactor(user)}>Retirer la 2FA</button>}
+                                    {!isSelf && (
+                                        <>
+                                            <button onClick={() => toggleDisabled(user)}>{user.disabledAt ? 'Réactiver' : 'Désactiver'}</button>
+                                            <button className="delete-btn" onClick={() => deleteUser(user)}>Supprimer</button>
+                                        </>
+                                    )}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {users.length === 0 && <p style={{ textAlign: 'center', color: 'var(--text-muted)' }}>Aucun utilisateur trouvé.</p>}
+
+            <div className="admin-users-pagination">
+                <button disabled={page <= 1} onClick={() => setPage(page - 1)}>←</button>
+                <span>{page} / {pageCount}</span>
+                <button disabled={page >= pageCount} onClick={() => setPage(page + 1)}>→</button>
+            </div>
+
+            <style>{`
+                .admin-users-container {
+                    padding: 20px;
+                    max-width: 1100px;
+                    margin: 0 auto;
+                }
+                .admin-users-filters {
+                    display: flex;
+                    gap: 10px;
+                    margin-bottom: 20px;
+                }
+                .admin-users-filters input, .admin-users-filters select, .admin-users-table select {
+                    padding: 10px;
+                    border-radius: 5px;
+                    border: 1px solid rgba(255, 255, 255, 0.2);
+                    background: rgba(0, 0, 0, 0.2);
+                    color: white;
+                }
+                .admin-users-filters input {
+                    flex: 1;
+                }
+                .admin-users-reset {
+                    padding: 15px 20px;
+                    border-radius: 10px;
+                    margin-bottom: 20px;
+                }
+                .admin-users-reset code {
+                    font-family: monospace;
+                    font-size: 1.1em;
+                    word-break: break-all;
+                }
+                .admin-users-table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    background: rgba(255, 255, 255, 0.05);
+                    border-radius: 10px;
+                    overflow: hidden;
+                }
+                .admin-users-table th, .admin-users-table td {
+                    padding: 12px 15px;
+                    text-align: left;
+                    border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+                }
+                .admin-users-table th {
+                    background: rgba(0, 0, 0, 0.3);
+                    font-weight: bold;
+                }
+                .admin-users-table tr.disabled td {
+                    opacity: 0.5;
+                }
+                .admin-users-actions {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                }
+                .admin-users-actions button, .admin-users-pagination button {
+                    padding: 6px 10px;
+                    border: 1px solid rgba(255, 255, 255, 0.2);
+                    border-radius: 5px;
+                    background: rgba(255, 255, 255, 0.08);
+                    color: inherit;
+                    cursor: pointer;
+                    font-size: 0.85em;
+                }
+                .admin-users-pagination {
+                    display: flex;
+                    justify-content: center;
+                    align-items: center;
+                    gap: 15px;
+                    margin-top: 20px;
+                }
+                .admin-users-pagination button:disabled {
+                    opacity: 0.4;
+                    cursor: default;
+                }
+            `}</style>
+        </div>
+    );
+}
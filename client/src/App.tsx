@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactGA from 'react-ga4';
 import { Helmet } from 'react-helmet-async';
 
@@ -28,8 +28,39 @@ import Auth from './Auth';
 import GameRanking from './GameRanking';
 import PaintingProjects from './PaintingProjects';
 import PaintingProjectDetails from './PaintingProjectDetails';
+import TwoFactorSettings from './TwoFactorSettings';
+import TrashSettings from './TrashSettings';
+import PasswordSettings from './PasswordSettings';
+import AdminUsers from './AdminUsers';
+import AuthorPage from './AuthorPage';
+import ProfileSettings from './ProfileSettings';
+import Search from './Search';
+import CommentModeration from './CommentModeration';
 
 
+interface AuthUser {
+    id: number;
+    username: string;
+    role: string;
+    permissions: string[];
+}
+
+interface AuthState {
+    token: string;
+    refreshToken: string;
+    user: AuthUser;
+}
+
+// Read the `exp` claim (ms) of a JWT without verifying it
+const getTokenExpiry = (token: string): number | null => {
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
 interface Todo {
     id: number;
     description: string;
@@ -47,7 +78,7 @@ interface SortableItemProps {
     handleKeyDown: (e: React.KeyboardEvent, id: number) => void;
     toggleTodo: (todo: Todo) => void;
     deleteTodo: (id: number) => void;
-    isAdmin: boolean;
+    canManageTodos: boolean;
 }
 
 function SortableItem({
@@ -60,7 +91,7 @@ function SortableItem({
     handleKeyDown,
     toggleTodo,
     deleteTodo,
-    isAdmin,
+    canManageTodos,
 }: SortableItemProps) {
     const {
         attributes,
@@ -69,7 +100,7 @@ function SortableItem({
         transform,
         transition,
         isDragging,
-    } = useSortable({ id: todo.id, disabled: !isAdmin });
+    } = useSortable({ id: todo.id, disabled: !canManageTodos });
 
     const style = {
         transform: CSS.Transform.toString(transform),
@@ -85,13 +116,13 @@ function SortableItem({
             className={`todo-item ${todo.completed ? 'completed' : ''} ${isDragging ? 'dragging' : ''}`}
         >
             <div
-                className={`checkbox ${todo.completed ? 'checked' : ''} ${!isAdmin ? 'disabled' : ''}`}
+                className={`checkbox ${todo.completed ? 'checked' : ''} ${!canManageTodos ? 'disabled' : ''}`}
                 role="checkbox"
                 aria-checked={todo.completed}
-                tabIndex={isAdmin ? 0 : -1}
-                onClick={() => isAdmin && toggleTodo(todo)}
+                tabIndex={canManageTodos ? 0 : -1}
+                onClick={() => canManageTodos && toggleTodo(todo)}
                 onKeyDown={(e) => {
-                    if (isAdmin && (e.key === 'Enter' || e.key === ' ')) {
+                    if (canManageTodos && (e.key === 'Enter' || e.key === ' ')) {
                         e.preventDefault();
                         toggleTodo(todo);
                     }
@@ -112,16 +143,16 @@ function SortableItem({
             ) : (
                 <span
                     className="todo-description"
-                    onDoubleClick={() => isAdmin && startEditing(todo)}
-                    {...(isAdmin ? attributes : {})}
-                    {...(isAdmin ? listeners : {})}
-                    style={{ cursor: isAdmin ? 'grab' : 'default' }}
+                    onDoubleClick={() => canManageTodos && startEditing(todo)}
+                    {...(canManageTodos ? attributes : {})}
+                    {...(canManageTodos ? listeners : {})}
+                    style={{ cursor: canManageTodos ? 'grab' : 'default' }}
                 >
                     {todo.description}
                 </span>
             )}
 
-            {isAdmin && (
+            {canManageTodos && (
                 <div className="item-actions">
                     {!editingId && (
                         <button
@@ -154,7 +185,10 @@ function SortableItem({
 
 export default function App() {
     // Gestion du routage par slug pour le blog et galerie
-    const [currentView, setCurrentView] = useState<'todos' | 'videogames' | 'blog' | 'gallery' | 'gallery-image' | 'gameranking' | 'painting' | 'painting-project'>('blog');
+    const [currentView, setCurrentView] = useState<'todos' | 'videogames' | 'blog' | 'gallery' | 'gallery-image' | 'gameranking' | 'painting' | 'painting-project' | 'security' | 'admin-users' | 'author' | 'search' | 'moderation'>('blog');
+    const [authorUsername, setAuthorUsername] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchInput, setSearchInput] = useState('');
     const [selectedImageId, setSelectedImageId] = useState<number | null>(null);
     const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
 
@@ -193,6 +227,18 @@ export default function App() {
                 }
             } else if (path === '/painting-projects') {
                 setCurrentView('painting');
+            } else if (path.startsWith('/authors/')) {
+                setAuthorUsername(decodeURIComponent(path.split('/')[2] || ''));
+                setCurrentView('author');
+            } else if (path === '/videogames') {
+                setCurrentView('videogames');
+            } else if (path === '/gameranking') {
+                setCurrentView('gameranking');
+            } else if (path === '/search') {
+                const q = new URLSearchParams(window.location.search).get('q') || '';
+                setSearchQuery(q);
+                setSearchInput(q);
+                setCurrentView('search');
             }
         };
 
@@ -247,19 +293,27 @@ export default function App() {
             path = `/painting-projects/${selectedProjectId}`;
             title = `Projet Peinture ${selectedProjectId} - Praetor Scott`;
             description = `Découvrez tous les détails d'un de mes de projets de peinture numéro ${selectedProjectId}.`;
+        } else if (currentView === 'author' && authorUsername) {
+            path = `/authors/${authorUsername}`;
+            title = `${authorUsername} - Praetor Scott`;
+            description = `Les articles, classements et projets de peinture de ${authorUsername} sur Praetor Scott.`;
+        } else if (currentView === 'search') {
+            path = `/search?q=${encodeURIComponent(searchQuery)}`;
+            title = `Recherche : ${searchQuery} - Praetor Scott`;
+            description = 'NoIndex';
         }
 
         setMetaDescription(description);
         setPageTitle(title);
         ReactGA.send({ hitType: 'pageview', page: path, title });
-    }, [currentView, selectedImageId, selectedProjectId]);
+    }, [currentView, selectedImageId, selectedProjectId, authorUsername, searchQuery]);
 
-    const [auth, setAuth] = useState<{ token: string; user: { id: number; username: string; role: string } } | null>(() => {
+    const [auth, setAuth] = useState<AuthState | null>(() => {
         const saved = localStorage.getItem('auth');
         try {
             const parsed = saved ? JSON.parse(saved) : null;
-            // Only return auth if it has a token
-            if (parsed && parsed.token) {
+            // Only return auth if it has a token pair (older saves without a refresh token are dropped)
+            if (parsed && parsed.token && parsed.refreshToken) {
                 console.log('Auth loaded from localStorage:', parsed.user.username);
                 return parsed;
             }
@@ -278,7 +332,10 @@ export default function App() {
     const [editText, setEditText] = useState('');
     const [showAuth, setShowAuth] = useState(false);
 
-    const isAdmin = auth?.user?.role === 'admin';
+    const permissions = auth?.user?.permissions || [];
+    const canManageTodos = permissions.includes('todos:manage');
+    const canManageUsers = permissions.includes('users:manage');
+    const canModerateComments = permissions.includes('comments:moderate');
 
     const sensors = useSensors(
         useSensor(PointerSensor, {
@@ -293,45 +350,166 @@ export default function App() {
 
     useEffect(() => {
         console.log('Auth state changed:', auth ? `Logged in as ${auth.user.username}` : 'Logged out');
-        if (isAdmin) {
+        if (canManageTodos) {
             fetchTodos();
         } else {
-            setCurrentView('blog');
+            // Token refreshes also land here: only leave views that need the lost rights
+            setCurrentView(view => (view === 'todos' || (view === 'security' && !auth) || (view === 'admin-users' && !canManageUsers) || (view === 'moderation' && !canModerateComments) ? 'blog' : view));
             setTodos([]);
         }
-    }, [auth, isAdmin]);
+    }, [auth, canManageTodos]);
 
     useEffect(() => {
         console.log('showAuth changed:', showAuth);
     }, [showAuth]);
 
-    const handleLogin = (token: string, user: { id: number; username: string; role: string }) => {
-        const authData = { token, user };
+    const handleLogin = (token: string, user: AuthUser, refreshToken: string) => {
+        const authData = { token, refreshToken, user };
         setAuth(authData);
         localStorage.setItem('auth', JSON.stringify(authData));
         setShowAuth(false);
     };
 
-    const handleLogout = () => {
+    const clearAuth = () => {
         setAuth(null);
         localStorage.removeItem('auth');
         setTodos([]);
     };
 
-    const fetchWithAuth = (url: string, options: RequestInit = {}) => {
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
+    const handleLogout = () => {
+        const refreshToken = auth?.refreshToken;
+        clearAuth();
+        if (refreshToken) {
+            // Revoke the server-side session; the local state is already cleared
+            fetch('/api/auth/logout', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ refreshToken }),
+            }).catch((err) => console.error('Logout request failed', err));
+        }
+    };
+
+    // Shared in-flight refresh so concurrent 401s only rotate the refresh token once
+    const refreshPromise = useRef<Promise<string | null> | null>(null);
+
+    const refreshAuth = (): Promise<string | null> => {
+        if (!refreshPromise.current) {
+            const staleToken = auth?.token;
+            const refresh = async () => {
+                // Read from localStorage: another tab may already have rotated the token
+                const saved: AuthState | null = JSON.parse(localStorage.getItem('auth') || 'null');
+                if (!saved?.refreshToken) {
+                    clearAuth();
+                    return null;
+                }
+                // That tab's new access token is still good: use it rather than presenting a
+                // refresh token it has just rotated, which the server treats as reuse
+                const exp = getTokenExpiry(saved.token);
+                if (saved.token !== staleToken && exp && exp - Date.now() > 60 * 1000) {
+                    setAuth(saved);
+                    return saved.token;
+                }
+                try {
+                    const res = await fetch('/api/auth/refresh', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ refreshToken: saved.refreshToken }),
+                    });
+                    if (!res.ok) {
+                        clearAuth();
+                        return null;
+                    }
+                    const data = await res.json();
+                    const authData = { token: data.token, refreshToken: data.refreshToken, user: data.user };
+                    setAuth(authData);
+                    localStorage.setItem('auth', JSON.stringify(authData));
+                    return data.token as string;
+                } catch (err) {
+                    console.error('Token refresh failed', err);
+                    return null;
+                }
+            };
+            // Every tab schedules its refresh for the same moment: the lock lets one tab at a time
+            // refresh, the others then find the rotated token in localStorage
+            refreshPromise.current = (async () => {
+                try {
+                    return await (navigator.locks ? navigator.locks.request('auth-refresh', refresh) : refresh());
+                } finally {
+                    refreshPromise.current = null;
+                }
+            })();
+        }
+        return refreshPromise.current;
+    };
+
+    // Child views call this on 401 (see authFetch): refresh the session instead of logging out,
+    // the new token lets them retry the request
+    const handleAuthError = () => refreshAuth();
+
+    // Refresh shortly before the access token expires so forms are never submitted with a stale token
+    useEffect(() => {
+        if (!auth?.token) return;
+        const exp = getTokenExpiry(auth.token);
+        if (!exp) return;
+        const delay = Math.max(exp - Date.now() - 60 * 1000, 0);
+        const timer = setTimeout(() => refreshAuth(), delay);
+        return () => clearTimeout(timer);
+    }, [auth?.token]);
+
+    // Keep tabs in sync when another one logs in, out or rotates the tokens
+    useEffect(() => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key !== 'auth') return;
+            setAuth(e.newValue ? JSON.parse(e.newValue) : null);
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    const openAuthor = (username: string) => {
+        window.history.pushState(null, '', `/authors/${encodeURIComponent(username)}`);
+        setAuthorUsername(username);
+        setCurrentView('author');
+    };
+
+    const submitSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        const q = searchInput.trim();
+        if (q.length < 2) return;
+        window.history.pushState(null, '', `/search?q=${encodeURIComponent(q)}`);
+        setSearchQuery(q);
+        setCurrentView('search');
+    };
+
+    // Results link to any page; let the location handler pick the matching view
+    const openSearchResult = (url: string) => {
+        window.history.pushState(null, '', url);
+        window.dispatchEvent(new PopStateEvent('popstate'));
+    };
+
+    const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
+        const doFetch = (token?: string) => {
+            const headers: Record<string, string> = {
+                'Content-Type': 'application/json',
+            };
+            if (token) {
+                headers['Authorization'] = `Bearer ${token}`;
+            }
+            return fetch(url, {
+                ...options,
+                headers: {
+                    ...options.headers,
+                    ...headers,
+                },
+            });
         };
-        if (auth?.token) {
-            headers['Authorization'] = `Bearer ${auth.token}`;
+
+        const res = await doFetch(auth?.token);
+        if (res.status === 401 && auth) {
+            const newToken = await refreshAuth();
+            if (newToken) return doFetch(newToken);
         }
-        return fetch(url, {
-            ...options,
-            headers: {
-                ...options.headers,
-                ...headers,
-            },
-        });
+        return res;
     };
 
     const fetchTodos = async () => {
@@ -340,7 +518,7 @@ export default function App() {
             const data = await res.json();
             setTodos(data);
         } else if (res.status === 401 && auth) {
-            handleLogout();
+            clearAuth();
         }
     };
 
@@ -411,7 +589,7 @@ export default function App() {
     };
 
     const handleDragEnd = async (event: DragEndEvent) => {
-        if (!isAdmin) return;
+        if (!canManageTodos) return;
         const { active, over } = event;
 
         if (over && active.id !== over.id) {
@@ -458,17 +636,29 @@ export default function App() {
                 
                 <div className="navbar-links">
                     <button className={`nav-link ${currentView === 'blog' ? 'active' : ''}`} onClick={() => setCurrentView('blog')}>Blog</button>
-                    {isAdmin && <button className={`nav-link ${currentView === 'todos' ? 'active' : ''}`} onClick={() => setCurrentView('todos')}>Tâches</button>}
+                    {canManageTodos && <button className={`nav-link ${currentView === 'todos' ? 'active' : ''}`} onClick={() => setCurrentView('todos')}>Tâches</button>}
                     <button className={`nav-link ${currentView === 'videogames' ? 'active' : ''}`} onClick={() => setCurrentView('videogames')}>Jeux vidéo</button>
                     <button className={`nav-link ${currentView === 'gameranking' ? 'active' : ''}`} onClick={() => setCurrentView('gameranking')}>Classement</button>
                     <button className={`nav-link ${currentView === 'gallery' ? 'active' : ''}`} onClick={() => setCurrentView('gallery')}>Galerie</button>
                     <button className={`nav-link ${currentView === 'painting' ? 'active' : ''}`} onClick={() => setCurrentView('painting')}>Peinture</button>
+                    {canModerateComments && <button className={`nav-link ${currentView === 'moderation' ? 'active' : ''}`} onClick={() => setCurrentView('moderation')}>Commentaires</button>}
+                    {canManageUsers && <button className={`nav-link ${currentView === 'admin-users' ? 'active' : ''}`} onClick={() => setCurrentView('admin-users')}>Utilisateurs</button>}
                 </div>
 
+                <form className="navbar-search" role="search" onSubmit={submitSearch}>
+                    <input
+                        type="search"
+                        placeholder="Rechercher..."
+                        aria-label="Rechercher sur le site"
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                    />
+                </form>
+
                 <div className="navbar-user">
                     {auth ? (
                         <>
-                            <span className="user-info">👤 <strong>{auth.user?.username || 'Utilisateur'}</strong></span>
+                            <span className="user-info" onClick={() => setCurrentView('security')} style={{cursor:'pointer'}} title="Mon compte">👤 <strong>{auth.user?.username || 'Utilisateur'}</strong></span>
                             <span className="logout-link" onClick={handleLogout} style={{cursor:'pointer', textDecoration:'underline'}}>Déconnexion</span>
                         </>
                     ) : (
@@ -483,7 +673,7 @@ export default function App() {
 
             {currentView === 'todos' ? (
                 <>
-                    {isAdmin && (
+                    {canManageTodos && (
                         <form onSubmit={addTodo} className="input-container">
                             <input
                                 type="text"
@@ -518,7 +708,7 @@ export default function App() {
                                         handleKeyDown={handleKeyDown}
                                         toggleTodo={toggleTodo}
                                         deleteTodo={deleteTodo}
-                                        isAdmin={isAdmin}
+                                        canManageTodos={canManageTodos}
                                     />
                                 ))}
                             </ul>
@@ -527,16 +717,17 @@ export default function App() {
 
                     {todos.length === 0 && (
                         <p style={{ textAlign: 'center', color: 'var(--text-muted)', marginTop: '2rem' }}>
-                            {isAdmin ? 'Aucune tâche pour le moment.' : "Aucune tâche de l'administrateur."}
+                            {canManageTodos ? 'Aucune tâche pour le moment.' : "Aucune tâche de l'administrateur."}
                         </p>
                     )}
                 </>
             ) : currentView === 'videogames' ? (
-                <VideoGames authToken={auth?.token || ''} onAuthError={handleLogout} userRole={auth?.user?.role || 'user'} />
+                <VideoGames authToken={auth?.token || ''} onAuthError={handleAuthError} permissions={permissions} />
             ) : currentView === 'gallery' ? (
                 <Gallery
                     authToken={auth?.token || ''}
-                    userRole={auth?.user?.role || 'user'}
+                    onAuthError={handleAuthError}
+                    permissions={permissions}
                     onNavigate={(id) => {
                         window.history.pushState(null, '', `/gallery/${id}`);
                         setSelectedImageId(id);
@@ -561,13 +752,47 @@ export default function App() {
                         setSelectedProjectId(null);
                     }}
                 />
+            ) : currentView === 'security' && auth ? (
+                <div className="security-container">
+                    <h2>Mon compte</h2>
+                    <ProfileSettings authToken={auth.token} onAuthError={handleAuthError} onOpenAuthor={() => openAuthor(auth.user.username)} />
+                    <PasswordSettings authToken={auth.token} onAuthError={handleAuthError} />
+                    <TwoFactorSettings authToken={auth.token} onAuthError={handleAuthError} />
+                    <TrashSettings authToken={auth.token} onAuthError={handleAuthError} />
+                </div>
+            ) : currentView === 'author' && authorUsername ? (
+                <AuthorPage
+                    username={authorUsername}
+                    onOpenPost={(slug) => {
+                        window.history.pushState(null, '', `/blog/${slug}`);
+                        setCurrentView('blog');
+                    }}
+                    onOpenProject={(id) => {
+                        window.history.pushState(null, '', `/painting-projects/${id}`);
+                        setSelectedProjectId(id);
+                        setCurrentView('painting-project');
+                    }}
+                />
+            ) : currentView === 'search' ? (
+                <Search query={searchQuery} onOpen={openSearchResult} />
+            ) : currentView === 'moderation' && auth && canModerateComments ? (
+                <CommentModeration
+                    authToken={auth.token}
+                    onAuthError={handleAuthError}
+                    onOpenPost={(slug) => {
+                        window.history.pushState(null, '', `/blog/${slug}`);
+                        setCurrentView('blog');
+                    }}
+                />
+            ) : currentView === 'admin-users' && auth && canManageUsers ? (
+                <AdminUsers authToken={auth.token} currentUserId={auth.user.id} onAuthError={handleAuthError} />
             ) : currentView === 'gameranking' ? (
-                <GameRanking authToken={auth?.token || ''} onAuthError={handleLogout} userRole={auth?.user?.role || 'user'} />
+                <GameRanking authToken={auth?.token || ''} onAuthError={handleAuthError} permissions={permissions} />
             ) : currentView === 'painting' ? (
                 <PaintingProjects
                     authToken={auth?.token || ''}
-                    onAuthError={handleLogout}
-                    userRole={auth?.user?.role || 'user'}
+                    onAuthError={handleAuthError}
+                    permissions={permissions}
                     onNavigate={(id) => {
                         window.history.pushState(null, '', `/painting-projects/${id}`);
                         setSelectedProjectId(id);
@@ -584,7 +809,7 @@ export default function App() {
                     }}
                 />
             ) : (
-                <Blog authToken={auth?.token || ''} onAuthError={handleLogout} userRole={auth?.user?.role || 'user'} />
+                <Blog authToken={auth?.token || ''} onAuthError={handleAuthError} permissions={permissions} onOpenAuthor={openAuthor} />
             )}
             </main>
         </div>
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 
 interface AuthProps {
-    onLogin: (token: string, user: { id: number; username: string; role: string }) => void;
+    onLogin: (token: string, user: { id: number; username: string; role: string; permissions: string[] }, refreshToken: string) => void;
     onCancel?: () => void;
 }
 
@@ -9,8 +9,16 @@ export default function Auth({ onLogin, onCancel }: AuthProps) {
     const [isLogin, setIsLogin] = useState(true);
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
-    const [secretCode, setSecretCode] = useState('');
+    const [invitationCode, setInvitationCode] = useState('');
     const [error, setError] = useState('');
+    // Set when the password was accepted but the account has two-factor authentication
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    const [code, setCode] = useState('');
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    // Reset with a token handed out by an administrator
+    const [isReset, setIsReset] = useState(false);
+    const [resetToken, setResetToken] = useState('');
+    const [notice, setNotice] = useState('');
 
     console.log('Auth component render. isLogin:', isLogin);
 
@@ -23,12 +31,75 @@ export default function Auth({ onLogin, onCancel }: AuthProps) {
             const res = await fetch(endpoint, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ username, password, secretCode }),
+                body: JSON.stringify({ username, password, invitationCode }),
+            });
+            const data = await res.json();
+
+            if (res.ok && data.twoFactorRequired) {
+                setChallengeToken(data.challengeToken);
+            } else if (res.ok) {
+                onLogin(data.token, data.user, data.refreshToken);
+            } else if (res.status === 423 && data.lockedUntil) {
+                setError(`Compte verrouillé jusqu'à ${new Date(data.lockedUntil).toLocaleTimeString('fr-FR')}`);
+            } else if (res.status === 429) {
+                setError(`Trop de tentatives, réessayez dans ${data.retryAfter} s`);
+            } else {
+                setError(data.violations ? data.violations.join('. ') : data.error || 'An error occurred');
+            }
+        } catch (err) {
+            setError('Failed to connect to server');
+        }
+    };
+
+    const handleResetSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        try {
+            const res = await fetch('/api/auth/password/reset', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token: resetToken.trim(), newPassword: password }),
+            });
+
+            if (res.ok) {
+                setIsReset(false);
+                setIsLogin(true);
+                setResetToken('');
+                setPassword('');
+                setNotice('Mot de passe réinitialisé, vous pouvez vous connecter.');
+            } else {
+                const data = await res.json();
+                setError(data.violations ? data.violations.join('. ') : data.error || 'An error occurred');
+            }
+        } catch (err) {
+            setError('Failed to connect to server');
+        }
+    };
+
+    const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        try {
+            const res = await fetch('/api/auth/login/2fa', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(useRecoveryCode ? { challengeToken, recoveryCode: code } : { challengeToken, code }),
             });
             const data = await res.json();
 
             if (res.ok) {
-                onLogin(data.token, data.user);
+                onLogin(data.token, data.user, data.refreshToken);
+            } else if (res.status === 423 && data.lockedUntil) {
+                setError(`Compte verrouillé jusqu'à ${new Date(data.lockedUntil).toLocaleTimeString('fr-FR')}`);
+                setChallengeToken(null);
+            } else if (res.status === 429) {
+                setError(`Trop de tentatives, réessayez dans ${data.retryAfter} s`);
+            } else if (res.status === 401 && data.error !== 'Invalid verification code') {
+                // Challenge expired: start over from the password step
+                setError(data.error);
+                setChallengeToken(null);
             } else {
                 setError(data.error || 'An error occurred');
             }
@@ -37,6 +108,84 @@ export default function Auth({ onLogin, onCancel }: AuthProps) {
         }
     };
 
+    if (challengeToken) {
+        return (
+            <div className="auth-container">
+                <div className="auth-card glass">
+                    <h2>Double authentification</h2>
+                    <form onSubmit={handleTwoFactorSubmit}>
+                        <div className="input-group">
+                            <input
+                                type="text"
+                                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                                autoComplete="one-time-code"
+                                placeholder={useRecoveryCode ? 'Code de secours' : 'Code à 6 chiffres'}
+                                aria-label={useRecoveryCode ? 'Code de secours' : 'Code de vérification'}
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                autoFocus
+                                required
+                            />
+                        </div>
+                        {error && <p className="error-message">{error}</p>}
+                        <button type="submit" className="auth-submit">Vérifier</button>
+                    </form>
+                    <button
+                        className="auth-toggle"
+                        onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}
+                    >
+                        {useRecoveryCode ? "Utiliser l'application d'authentification" : 'Utiliser un code de secours'}
+                    </button>
+                    <button
+                        className="auth-toggle"
+                        onClick={() => { setChallengeToken(null); setCode(''); setError(''); }}
+                        style={{ marginTop: '0.5rem' }}
+                    >
+                        Retour
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (isReset) {
+        return (
+            <div className="auth-container">
+                <div className="auth-card glass">
+                    <h2>Réinitialisation</h2>
+                    <form onSubmit={handleResetSubmit}>
+                        <div className="input-group">
+                            <input
+                                type="text"
+                                placeholder="Code de réinitialisation"
+                                aria-label="Code de réinitialisation"
+                                value={resetToken}
+                                onChange={(e) => setResetToken(e.target.value)}
+                                required
+                            />
+                        </div>
+                        <div className="input-group">
+                            <input
+                                type="password"
+                                autoComplete="new-password"
+                                placeholder="Nouveau mot de passe"
+                                aria-label="Nouveau mot de passe"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                required
+                            />
+                        </div>
+                        {error && <p className="error-message">{error}</p>}
+                        <button type="submit" className="auth-submit">Réinitialiser</button>
+                    </form>
+                    <button className="auth-toggle" onClick={() => { setIsReset(false); setError(''); }}>
+                        Retour à la connexion
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="auth-container">
             <div className="auth-card glass">
@@ -65,17 +214,18 @@ export default function Auth({ onLogin, onCancel }: AuthProps) {
                     {!isLogin && (
                         <div className="input-group admin-secret-field">
                             <label style={{ display: 'block', textAlign: 'left', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--primary)' }}>
-                                Code secret (Optionnel pour Admin)
+                                Code d'invitation (Optionnel)
                             </label>
                             <input
                                 type="text"
-                                placeholder="Entrer le code secret"
-                                aria-label="Code secret admin"
-                                value={secretCode}
-                                onChange={(e) => setSecretCode(e.target.value)}
+                                placeholder="Entrer le code d'invitation"
+                                aria-label="Code d'invitation"
+                                value={invitationCode}
+                                onChange={(e) => setInvitationCode(e.target.value)}
                             />
                         </div>
                     )}
+                    {notice && <p>{notice}</p>}
                     {error && <p className="error-message">{error}</p>}
                     <button type="submit" className="auth-submit">
                         {isLogin ? 'Se connecter' : "S'inscrire"}
@@ -87,6 +237,11 @@ export default function Auth({ onLogin, onCancel }: AuthProps) {
                 >
                     {isLogin ? "Pas de compte ? S'inscrire" : 'Déjà un compte ? Se connecter'}
                 </button>
+                {isLogin && (
+                    <button className="auth-toggle" onClick={() => { setIsReset(true); setError(''); setNotice(''); }} style={{ marginTop: '0.5rem' }}>
+                        J'ai un code de réinitialisation
+                    </button>
+                )}
                 {onCancel && (
                     <button className="auth-toggle" onClick={onCancel} style={{ marginTop: '0.5rem' }}>
                         Annuler
@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import ResponsiveImage, { ResponsiveSources } from './ResponsiveImage';
+
+interface AuthorProfile {
+    username: string;
+    displayName: string | null;
+    bio: string | null;
+    avatarUrl: string | null;
+    links: { label: string; url: string }[] | null;
+    createdAt: string;
+    blogPosts: { id: number; title: string; slug: string; createdAt: string; publishedAt: string | null }[];
+    gameRankings: { id: number; gameName: string; rating: number; genre: string }[];
+    paintingProjects: { id: number; title: string; status: string; images: { id: number; filename: string; srcset: ResponsiveSources | null }[] }[];
+}
+
+interface AuthorPageProps {
+    username: string;
+    onOpenPost: (slug: string) => void;
+    onOpenProject: (id: number) => void;
+}
+
+export default function AuthorPage({ username, onOpenPost, onOpenProject }: AuthorPageProps) {
+    const [author, setAuthor] = useState<AuthorProfile | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setLoading(true);
+        setError('');
+        fetch(`/api/users/${encodeURIComponent(username)}`)
+            .then(async res => {
+                if (res.ok) {
+                    setAuthor(await res.json());
+                } else {
+                    setError(res.status === 404 ? 'Auteur introuvable' : 'Failed to load author');
+                }
+            })
+            .catch(() => setError('Network error'))
+            .finally(() => setLoading(false));
+    }, [username]);
+
+    if (loading) return <div>Chargement...</div>;
+    if (error || !author) return <div className="error-message">{error}</div>;
+
+    const name = author.displayName || author.username;
+
+    return (
+        <div className="author-page">
+            <header className="author-header glass">
+                {author.avatarUrl ? (
+                    <img className="author-avatar" src={author.avatarUrl} alt={`Avatar de ${name}`} width={96} height={96} />
+                ) : (
+                    <div className="author-avatar author-avatar-placeholder">{name.charAt(0).toUpperCase()}</div>
+                )}
+                <div>
+                    <h2>{name}</h2>
+                    {author.displayName && <div className="author-username">@{author.username}</div>}
+                    {author.bio && <p className="author-bio">{author.bio}</p>}
+                    {author.links && author.links.length > 0 && (
+                        <ul className="author-links">
+                            {author.links.map(link => (
+                                <li key={link.url}>
+                                    <a href={link.url} target="_blank" rel="noopener noreferrer nofollow">{link.label || link.url}</a>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </header>
+
+            {author.blogPosts.length > 0 && (
+                <section className="author-section">
+                    <h3>Articles</h3>
+                    <ul>
+                        {author.blogPosts.map(post => (
+                            <li key={post.id}>
+                                <a href={`/blog/${post.slug}`} onClick={(e) => { e.preventDefault(); onOpenPost(post.slug); }}>
+                                    {post.title}
+                                </a>
+                                <span className="author-date"> — {new Date(post.publishedAt || post.createdAt).toLocaleDateString('fr-FR')}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {author.paintingProjects.length > 0 && (
+                <section className="author-section">
+                    <h3>Projets de peinture</h3>
+                    <div className="author-projects">
+                        {author.paintingProjects.map(project => (
+                            <div key={project.id} className="author-project glass" onClick={() => onOpenProject(project.id)}>
+                                {project.images[0] && (
+                                    <ResponsiveImage src={`/uploads/painting/${project.images[0].filename}`} srcset={project.images[0].srcset} sizes="200px" alt={project.title} loading="lazy" />
+                                )}
+                                <div>{project.title}</div>
+                                <div className="author-date">{project.status}</div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {author.gameRankings.length > 0 && (
+                <section className="author-section">
+                    <h3>Classement jeux vidéo</h3>
+                    <ul>
+                        {author.gameRankings.map(ranking => (
+                            <li key={ranking.id}>{ranking.gameName} ({ranking.genre}) — {ranking.rating}/10</li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            <style>{`
+                .author-page {
+                    padding: 20px;
+                    max-width: 900px;
+                    margin: 0 auto;
+                }
+                .author-header {
+                    display: flex;
+                    gap: 20px;
+                    align-items: flex-start;
+                    padding: 20px;
+                    border-radius: 16px;
+                    margin-bottom: 30px;
+                }
+                .author-avatar {
+                    width: 96px;
+                    height: 96px;
+                    border-radius: 50%;
+                    object-fit: cover;
+                    flex-shrink: 0;
+                }
+                .author-avatar-placeholder {
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    background: rgba(255, 255, 255, 0.1);
+                    font-size: 2.5em;
+                    font-weight: bold;
+                }
+                .author-username, .author-date {
+                    color: var(--text-muted);
+                    font-size: 0.9em;
+                }
+                .author-bio {
+                    white-space: pre-line;
+                }
+                .author-links {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 12px;
+                    list-style: none;
+                    padding: 0;
+                }
+                .author-section {
+                    margin-bottom: 30px;
+                }
+                .author-projects {
+                    display: grid;
+                    grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+                    gap: 15px;
+                }
+                .author-project {
+                    padding: 10px;
+                    border-radius: 10px;
+                    cursor: pointer;
+                }
+                .author-project img {
+                    width: 100%;
+                    aspect-ratio: 1;
+                    object-fit: cover;
+                    border-radius: 6px;
+                }
+            `}</style>
+        </div>
+    );
+}
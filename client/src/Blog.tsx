@@ -1,10 +1,42 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import ReactGA from 'react-ga4';
+import BlogRevisions from './BlogRevisions';
+import BlogComments from './BlogComments';
+import ResponsiveImage, { ImagePlaceholder } from './ResponsiveImage';
+import { authFetch } from './authFetch';
 
-interface BlogImage {
+interface BlogImage extends ImagePlaceholder {
     id: number;
     filename: string;
+    alt: string | null;
+    caption: string | null;
+}
+
+// Ids of uploaded images placed in the content with ![légende](image:42)
+const getReferencedImageIds = (content: string) =>
+    new Set(Array.from(content.matchAll(/\]\(image:(\d+)\)/g), match => parseInt(match[1])));
+
+type PostStatus = 'draft' | 'scheduled' | 'published';
+
+const STATUS_LABELS: Record<PostStatus, string> = {
+    draft: 'Brouillon',
+    scheduled: 'Programmé',
+    published: 'Publié',
+};
+
+// <input type="datetime-local"> works with local time without seconds
+const toLocalInput = (iso: string | null) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const EMPTY_FORM = { title: '', slug: '', content: '', status: 'draft' as PostStatus, publishedAt: '', tags: '' };
+
+interface BlogTag {
+    name: string;
+    slug: string;
 }
 
 interface BlogPost {
@@ -12,9 +44,23 @@ interface BlogPost {
     title: string;
     slug: string;
     content: string;
+    contentHtml: string | null;
+    excerpt: string | null;
+    wordCount: number | null;
+    readingTimeMinutes: number | null;
+    toc: TocEntry[] | null;
     images: BlogImage[];
+    status: PostStatus;
+    publishedAt: string | null;
+    tags: BlogTag[];
     createdAt: string;
-    author: { username: string };
+    author: { username: string; displayName: string | null; avatarFilename: string | null };
+}
+
+interface TocEntry {
+    depth: number;
+    text: string;
+    id: string;
 }
 
 interface Pagination {
@@ -26,26 +72,32 @@ interface Pagination {
 
 interface BlogProps {
     authToken: string;
-    onAuthError: () => void;
-    userRole: string;
+    onAuthError: () => Promise<string | null>;
+    permissions: string[];
+    onOpenAuthor: (username: string) => void;
 }
 
-export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
+export default function Blog({ authToken, onAuthError, permissions, onOpenAuthor }: BlogProps) {
     const [posts, setPosts] = useState<BlogPost[]>([]);
     const [pagination, setPagination] = useState<Pagination>({
         page: 1, limit: 5, total: 0, totalPages: 0
     });
     const [selectedPost, setSelectedPost] = useState<BlogPost | null>(null);
     const [slugView, setSlugView] = useState<string | null>(null);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [tags, setTags] = useState<(BlogTag & { postCount: number })[]>([]);
     const [isCreating, setIsCreating] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
-    const [formData, setFormData] = useState({ title: '', content: '' });
+    const [formData, setFormData] = useState(EMPTY_FORM);
     const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
     const [fullscreenImage, setFullscreenImage] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const contentRef = useRef<HTMLTextAreaElement>(null);
+    const articleRef = useRef<HTMLDivElement>(null);
 
 
-    const isAdmin = userRole === 'admin';
+    const canEdit = permissions.includes('blog:write');
 
     useEffect(() => {
         if (slugView) {
@@ -53,20 +105,31 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
         } else {
             fetchPosts();
         }
-    }, [pagination.page, slugView]);
+    }, [pagination.page, slugView, tagFilter]);
 
-    // Permet la navigation directe par slug (pour App)
+    // Permet la navigation directe par slug ou par tag (pour App)
     useEffect(() => {
-        if (window.location.pathname.startsWith('/blog/')) {
-            const slug = window.location.pathname.replace('/blog/', '');
+        const path = window.location.pathname;
+        if (path.startsWith('/blog/tag/')) {
+            const tag = decodeURIComponent(path.replace('/blog/tag/', ''));
+            if (tag) setTagFilter(tag);
+        } else if (path.startsWith('/blog/')) {
+            const slug = path.replace('/blog/', '');
             if (slug) setSlugView(slug);
         }
+        fetchTags();
     }, []);
     const fetchPostBySlug = async (slug: string) => {
         try {
             const res = await fetchWithAuth(`/api/blog/slug/${slug}`);
             if (res.ok) {
                 const post = await res.json();
+                if (post.redirect) {
+                    // Former slug: show the current address without adding a history entry
+                    window.history.replaceState(null, '', `/blog/${post.redirect.slug}`);
+                    setSlugView(post.redirect.slug);
+                    return;
+                }
                 setSelectedPost(post);
             } else {
                 setSelectedPost(null);
@@ -99,6 +162,23 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
         }
     }, [slugView, selectedPost?.title]);
 
+    // Images in the article carry their placeholder as a background: drop it once loaded so it
+    // does not show through transparent images. Load events do not bubble, hence the capture listener.
+    useEffect(() => {
+        const article = articleRef.current;
+        if (!article) return;
+        const clearPreview = (img: HTMLImageElement) => {
+            img.style.backgroundColor = '';
+            img.style.backgroundImage = '';
+        };
+        article.querySelectorAll('img').forEach(img => img.complete && clearPreview(img));
+        const handleLoad = (e: Event) => {
+            if (e.target instanceof HTMLImageElement) clearPreview(e.target);
+        };
+        article.addEventListener('load', handleLoad, true);
+        return () => article.removeEventListener('load', handleLoad, true);
+    }, [selectedPost?.contentHtml]);
+
     useEffect(() => {
         if (fullscreenImage) {
             ReactGA.send({ hitType: 'pageview', page: `/blog/image/${fullscreenImage}`, title: 'Image Blog Lightbox' });
@@ -107,35 +187,49 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
 
     const fetchWithAuth = (url: string, options: RequestInit = {}) => {
         const headers: Record<string, string> = {};
-        if (authToken) {
-            headers['Authorization'] = `Bearer ${authToken}`;
-        }
         // Don't set Content-Type for FormData - browser will set it with boundary
         const isFormData = options.body instanceof FormData;
         if (!isFormData) {
             headers['Content-Type'] = 'application/json';
         }
-        return fetch(url, {
+        return authFetch(url, {
             ...options,
             headers: { ...headers, ...options.headers },
-        });
+        }, authToken, onAuthError);
     };
 
     const fetchPosts = async () => {
         try {
-            const res = await fetchWithAuth(`/api/blog?page=${pagination.page}&limit=5`);
+            const tagQuery = tagFilter ? `&tag=${encodeURIComponent(tagFilter)}` : '';
+            const res = await fetchWithAuth(`/api/blog?page=${pagination.page}&limit=5${tagQuery}`);
             if (res.ok) {
                 const data = await res.json();
                 setPosts(data.posts);
                 setPagination(data.pagination);
-            } else if (res.status === 401 && authToken) {
-                onAuthError();
             }
         } catch (error) {
             console.error('Failed to fetch posts:', error);
         }
     };
 
+    const fetchTags = async () => {
+        try {
+            const res = await fetchWithAuth('/api/blog/tags');
+            if (res.ok) setTags(await res.json());
+        } catch (error) {
+            console.error('Failed to fetch tags:', error);
+        }
+    };
+
+    // Show the posts of a tag (null for all posts)
+    const openTag = (slug: string | null) => {
+        setSelectedPost(null);
+        setSlugView(null);
+        setTagFilter(slug);
+        setPagination({ ...pagination, page: 1 });
+        window.history.pushState({}, '', slug ? `/blog/tag/${encodeURIComponent(slug)}` : '/blog');
+    };
+
     const handleCreate = async (e: React.FormEvent) => {
         e.preventDefault();
         console.log('Submitting post:', formData);
@@ -148,6 +242,11 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
         const form = new FormData();
         form.append('title', formData.title);
         form.append('content', formData.content);
+        form.append('status', formData.status);
+        form.append('tags', formData.tags);
+        if (formData.status === 'scheduled' && formData.publishedAt) {
+            form.append('publishedAt', new Date(formData.publishedAt).toISOString());
+        }
         if (selectedFiles.length > 0) {
             console.log(`Appending ${selectedFiles.length} images to upload.`);
             selectedFiles.forEach(file => form.append('images', file));
@@ -166,15 +265,16 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                 console.log('Post created:', newPost);
 
                 // Reset form
-                setFormData({ title: '', content: '' });
+                setFormData(EMPTY_FORM);
                 setSelectedFiles([]);
                 setIsCreating(false);
                 setSlugView(null);
                 setSelectedPost(null);
 
-                alert('Article publié avec succès !');
+                alert(formData.status === 'published' ? 'Article publié avec succès !' : 'Article enregistré.');
                 window.history.pushState({}, '', '/blog');
                 await fetchPosts();
+                fetchTags();
             } else {
                 const error = await res.json();
                 console.error('Server error:', error);
@@ -193,12 +293,22 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
         try {
             const res = await fetchWithAuth(`/api/blog/${selectedPost.id}`, {
                 method: 'PUT',
-                body: JSON.stringify({ title: formData.title, content: formData.content }),
+                body: JSON.stringify({
+                    title: formData.title,
+                    slug: formData.slug.trim() || undefined,
+                    content: formData.content,
+                    status: formData.status,
+                    tags: formData.tags,
+                    publishedAt: formData.status === 'scheduled' && formData.publishedAt ? new Date(formData.publishedAt).toISOString() : undefined
+                }),
             });
             if (res.ok) {
                 setIsEditing(false);
                 setSelectedPost(null);
                 fetchPosts();
+            } else {
+                const error = await res.json();
+                alert(`Erreur de mise à jour: ${error.error}`);
             }
         } catch (error) {
             console.error('Failed to update post:', error);
@@ -227,6 +337,8 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                     ...selectedPost,
                     images: selectedPost.images.filter(img => img.id !== imageId)
                 });
+            } else if (res.status === 409) {
+                alert("Cette image est utilisée dans le contenu de l'article. Retirez sa référence avant de la supprimer.");
             }
         } catch (error) {
             console.error('Failed to delete image:', error);
@@ -254,17 +366,54 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
         }
     };
 
+    const handleUpdateImage = async (image: BlogImage) => {
+        if (!selectedPost) return;
+        try {
+            await fetchWithAuth(`/api/blog/images/${image.id}`, {
+                method: 'PUT',
+                body: JSON.stringify({ alt: image.alt, caption: image.caption }),
+            });
+        } catch (error) {
+            console.error('Failed to update image:', error);
+        }
+    };
+
+    const editImageField = (imageId: number, field: 'alt' | 'caption', value: string) => {
+        if (!selectedPost) return;
+        setSelectedPost({
+            ...selectedPost,
+            images: selectedPost.images.map(img => (img.id === imageId ? { ...img, [field]: value } : img))
+        });
+    };
+
+    // Insert an image reference at the cursor position of the content field
+    const insertImageReference = (image: BlogImage) => {
+        const reference = `\n\n![${image.caption || ''}](image:${image.id})\n\n`;
+        const textarea = contentRef.current;
+        const position = textarea ? textarea.selectionStart : formData.content.length;
+        setFormData({
+            ...formData,
+            content: formData.content.slice(0, position) + reference + formData.content.slice(position)
+        });
+        textarea?.focus();
+    };
+
     const startEdit = (post: BlogPost) => {
         setSelectedPost(post);
-        setFormData({ title: post.title, content: post.content });
+        setFormData({
+            title: post.title,
+            slug: post.slug,
+            content: post.content,
+            status: post.status,
+            publishedAt: post.status === 'scheduled' ? toLocalInput(post.publishedAt) : '',
+            tags: post.tags.map(tag => tag.name).join(', ')
+        });
         setIsEditing(true);
     };
 
-    const getExcerpt = (content: string) => {
-        const lines = content.split('\n').slice(0, 2);
-        const excerpt = lines.join(' ');
-        return excerpt.length > 150 ? excerpt.slice(0, 150) + '...' : excerpt;
-    };
+    const renderReadingTime = (post: BlogPost) => post.readingTimeMinutes ? (
+        <span className="badge badge-reading-time" title={`${post.wordCount} mots`}>⏱ {post.readingTimeMinutes} min de lecture</span>
+    ) : null;
 
     const formatDate = (dateStr: string) => {
         return new Date(dateStr).toLocaleDateString('fr-FR', {
@@ -272,8 +421,69 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
         });
     };
 
+    const renderStatusBadge = (post: BlogPost) => post.status !== 'published' && (
+        <span className={`badge badge-status badge-${post.status}`}>
+            {STATUS_LABELS[post.status]}
+            {post.status === 'scheduled' && post.publishedAt && ` le ${new Date(post.publishedAt).toLocaleString('fr-FR', { dateStyle: 'long', timeStyle: 'short' })}`}
+        </span>
+    );
+
+    const renderPublicationFields = () => (
+        <div className="blog-publication">
+            <select
+                aria-label="Statut de l'article"
+                value={formData.status}
+                onChange={(e) => setFormData({ ...formData, status: e.target.value as PostStatus })}
+                className="blog-input"
+            >
+                <option value="draft">Brouillon</option>
+                <option value="scheduled">Programmer</option>
+                <option value="published">Publier maintenant</option>
+            </select>
+            <input
+                type="text"
+                placeholder="Tags, séparés par des virgules"
+                aria-label="Tags de l'article"
+                value={formData.tags}
+                onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                className="blog-input"
+            />
+            {formData.status === 'scheduled' && (
+                <input
+                    type="datetime-local"
+                    aria-label="Date de publication"
+                    value={formData.publishedAt}
+                    min={toLocalInput(new Date().toISOString())}
+                    onChange={(e) => setFormData({ ...formData, publishedAt: e.target.value })}
+                    className="blog-input"
+                    required
+                />
+            )}
+        </div>
+    );
+
+    const renderTags = (post: BlogPost) => post.tags.map(tag => (
+        <a
+            key={tag.slug}
+            href={`/blog/tag/${tag.slug}`}
+            className="badge badge-tag"
+            onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                openTag(tag.slug);
+            }}
+        >
+            #{tag.name}
+        </a>
+    ));
+
     // --- Render Logic ---
 
+    // Images placed in the content are not repeated below it, except for editors who manage them there
+    const trailingImages = selectedPost
+        ? selectedPost.images.filter(img => canEdit || !getReferencedImageIds(selectedPost.content).has(img.id))
+        : [];
+
     return (
         <div className="blog-container">
             {selectedPost && !isEditing ? (
@@ -283,7 +493,7 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                         setSelectedPost(null);
                         setSlugView(null);
                         setFullscreenImage(null);
-                        window.history.pushState({}, '', '/');
+                        window.history.pushState({}, '', tagFilter ? `/blog/tag/${encodeURIComponent(tagFilter)}` : '/');
                     }}>
                         ← Retour aux articles
                     </button>
@@ -291,21 +501,59 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                         <h2 className="blog-full-title">{selectedPost.title}</h2>
                         <div style={{ fontSize: '0.9em', color: '#888' }}>URL : /blog/{selectedPost.slug}</div>
                         <div className="blog-meta">
-                            <span className="badge badge-date">{formatDate(selectedPost.createdAt)}</span>
-                            <span className="badge badge-author">Par {selectedPost.author.username}</span>
-                        </div>
-                        <div className="blog-content">
-                            {selectedPost.content.split('\n').map((para, i) => (
-                                <p key={i}>{para}</p>
-                            ))}
+                            <span className="badge badge-date">{formatDate(selectedPost.publishedAt || selectedPost.createdAt)}</span>
+                            {renderReadingTime(selectedPost)}
+                            {renderStatusBadge(selectedPost)}
+                            {renderTags(selectedPost)}
+                            <span
+                                className="badge badge-author"
+                                onClick={() => onOpenAuthor(selectedPost.author.username)}
+                                style={{ cursor: 'pointer' }}
+                            >
+                                Par {selectedPost.author.displayName || selectedPost.author.username}
+                            </span>
                         </div>
-                        {selectedPost.images.length > 0 && (
+                        {selectedPost.toc && selectedPost.toc.length > 1 && (
+                            <nav className="blog-toc" aria-label="Sommaire">
+                                <strong>Sommaire</strong>
+                                <ul>
+                                    {selectedPost.toc.map(entry => (
+                                        <li key={entry.id} style={{ marginLeft: `${(entry.depth - 1) * 15}px` }}>
+                                            <a
+                                                href={`#${entry.id}`}
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    document.getElementById(entry.id)?.scrollIntoView({ behavior: 'smooth' });
+                                                }}
+                                            >
+                                                {entry.text}
+                                            </a>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </nav>
+                        )}
+                        {/* HTML rendered from Markdown and sanitized by the server */}
+                        <div
+                            ref={articleRef}
+                            className="blog-content"
+                            dangerouslySetInnerHTML={{ __html: selectedPost.contentHtml || '' }}
+                            onClick={(e) => {
+                                const target = e.target as HTMLElement;
+                                const src = target instanceof HTMLImageElement ? target.getAttribute('src') : null;
+                                if (src?.startsWith('/uploads/blog/')) {
+                                    setFullscreenImage(decodeURIComponent(src.replace('/uploads/blog/', '')));
+                                }
+                            }}
+                        />
+                        {trailingImages.length > 0 && (
                             <div className="blog-images">
-                                {selectedPost.images.map(img => (
+                                {trailingImages.map(img => (
                                     <div key={img.id} className="blog-image-container">
-                                        <img
+                                        <ResponsiveImage
                                             src={`/uploads/blog/${img.filename}`}
-                                            alt={`Illustration du blog: ${img.filename}`}
+                                            preview={img}
+                                            alt={img.alt || img.caption || `Illustration du blog: ${img.filename}`}
                                             className="blog-image"
                                             onClick={(e) => {
                                                 e.stopPropagation();
@@ -314,7 +562,7 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                                             }}
                                             style={{ cursor: 'zoom-in', pointerEvents: 'auto', position: 'relative', zIndex: 10 }}
                                         />
-                                        {isAdmin && (
+                                        {canEdit && (
                                             <button
                                                 className="image-delete-btn"
                                                 aria-label="Supprimer l'image"
@@ -329,7 +577,7 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                                 ))}
                             </div>
                         )}
-                        {isAdmin && (
+                        {canEdit && (
                             <div className="blog-admin-actions">
                                 <div className="image-upload-section">
                                     <input
@@ -356,12 +604,32 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                                     <button className="edit-action-btn" onClick={() => startEdit(selectedPost)}>
                                         ✏️ Modifier
                                     </button>
+                                    <button className="edit-action-btn" onClick={() => setShowRevisions(!showRevisions)}>
+                                        🕘 Historique
+                                    </button>
                                     <button className="delete-action-btn" onClick={() => handleDelete(selectedPost.id)}>
                                         🗑️ Supprimer
                                     </button>
                                 </div>
                             </div>
                         )}
+                        {canEdit && showRevisions && (
+                            <BlogRevisions
+                                postId={selectedPost.id}
+                                authToken={authToken}
+                                onAuthError={onAuthError}
+                                onRestored={() => fetchPostBySlug(selectedPost.slug)}
+                            />
+                        )}
+                        {/* Only published posts take comments */}
+                        {selectedPost.publishedAt && new Date(selectedPost.publishedAt) <= new Date() && (
+                            <BlogComments
+                                postId={selectedPost.id}
+                                authToken={authToken}
+                                onAuthError={onAuthError}
+                                onOpenAuthor={onOpenAuthor}
+                            />
+                        )}
                     </article>
                 </>
             ) : isEditing && selectedPost ? (
@@ -379,14 +647,60 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                             onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                             className="blog-input"
                         />
+                        <label className="blog-slug-field">
+                            /blog/
+                            <input
+                                type="text"
+                                placeholder="adresse-de-l-article"
+                                aria-label="Adresse de l'article"
+                                value={formData.slug}
+                                onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                                className="blog-input"
+                            />
+                        </label>
+                        {selectedPost.slug !== formData.slug.trim() && formData.slug.trim() && (
+                            <small>L'ancienne adresse /blog/{selectedPost.slug} redirigera vers la nouvelle.</small>
+                        )}
                         <textarea
-                            placeholder="Contenu de l'article..."
+                            ref={contentRef}
+                            placeholder="Contenu de l'article (Markdown)..."
                             aria-label="Contenu de l'article"
                             value={formData.content}
                             onChange={(e) => setFormData({ ...formData, content: e.target.value })}
                             className="blog-textarea"
                             rows={10}
                         />
+                        {selectedPost.images.length > 0 && (
+                            <div className="blog-image-refs">
+                                {selectedPost.images.map(img => (
+                                    <div key={img.id} className="blog-image-ref">
+                                        <img src={`/uploads/blog/${img.filename}`} alt="" />
+                                        <input
+                                            type="text"
+                                            placeholder="Légende"
+                                            aria-label="Légende de l'image"
+                                            value={img.caption || ''}
+                                            onChange={(e) => editImageField(img.id, 'caption', e.target.value)}
+                                            onBlur={() => handleUpdateImage(img)}
+                                            className="blog-input"
+                                        />
+                                        <input
+                                            type="text"
+                                            placeholder="Texte alternatif"
+                                            aria-label="Texte alternatif de l'image"
+                                            value={img.alt || ''}
+                                            onChange={(e) => editImageField(img.id, 'alt', e.target.value)}
+                                            onBlur={() => handleUpdateImage(img)}
+                                            className="blog-input"
+                                        />
+                                        <button type="button" className="upload-btn" onClick={() => insertImageReference(img)}>
+                                            Insérer dans le texte
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {renderPublicationFields()}
                         <button type="submit" className="add-btn">Enregistrer</button>
                     </form>
                 </>
@@ -406,7 +720,7 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                             className="blog-input"
                         />
                         <textarea
-                            placeholder="Contenu de l'article..."
+                            placeholder="Contenu de l'article (Markdown)..."
                             aria-label="Contenu de l'article"
                             value={formData.content}
                             onChange={(e) => setFormData({ ...formData, content: e.target.value })}
@@ -430,18 +744,34 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                                 📷 Ajouter des images ({selectedFiles.length})
                             </button>
                         </div>
-                        <button type="submit" className="add-btn">Publier</button>
+                        {renderPublicationFields()}
+                        <button type="submit" className="add-btn">{formData.status === 'published' ? 'Publier' : 'Enregistrer'}</button>
                     </form>
                 </>
 
             ) : (
                 <>
-                    {isAdmin && (
+                    {canEdit && (
                         <button className="add-btn new-post-btn" onClick={() => setIsCreating(true)}>
                             + Nouvel article
                         </button>
                     )}
 
+                    {tags.length > 0 && (
+                        <nav className="blog-tags" aria-label="Tags du blog">
+                            <button className={`badge badge-tag ${!tagFilter ? 'active' : ''}`} onClick={() => openTag(null)}>Tous</button>
+                            {tags.map(tag => (
+                                <button
+                                    key={tag.slug}
+                                    className={`badge badge-tag ${tagFilter === tag.slug ? 'active' : ''}`}
+                                    onClick={() => openTag(tag.slug)}
+                                >
+                                    #{tag.name} ({tag.postCount})
+                                </button>
+                            ))}
+                        </nav>
+                    )}
+
                     <div className="blog-list">
                         {posts.map(post => (
                             <article key={post.id} className="blog-card">
@@ -467,9 +797,12 @@ export default function Blog({ authToken, onAuthError, userRole }: BlogProps) {
                                     {post.title}
                                 </h3>
                                 <div className="blog-meta">
-                                    <span className="badge badge-date">{formatDate(post.createdAt)}</span>
+                                    <span className="badge badge-date">{formatDate(post.publishedAt || post.createdAt)}</span>
+                                    {renderReadingTime(post)}
+                                    {renderStatusBadge(post)}
+                                    {renderTags(post)}
                                 </div>
-                                <p className="blog-excerpt">{getExcerpt(post.content)}</p>
+                                <p className="blog-excerpt">{post.excerpt}</p>
                                 {post.images.length > 0 && (
                                     <span className="image-count">📷 {post.images.length} image(s)</span>
                                 )}
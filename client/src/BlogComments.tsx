@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+interface BlogComment {
+    id: number;
+    content: string;
+    status: 'pending' | 'approved';
+    parentId: number | null;
+    createdAt: string;
+    author: { username: string; displayName: string | null; avatarFilename: string | null };
+    replies: BlogComment[];
+}
+
+interface BlogCommentsProps {
+    postId: number;
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+    onOpenAuthor: (username: string) => void;
+}
+
+const MAX_LENGTH = 2000;
+// Deeper replies are still shown, just no longer indented
+const MAX_INDENT_DEPTH = 4;
+
+const countComments = (comments: BlogComment[]): number =>
+    comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
+
+export default function BlogComments({ postId, authToken, onAuthError, onOpenAuthor }: BlogCommentsProps) {
+    const [comments, setComments] = useState<BlogComment[]>([]);
+    const [content, setContent] = useState('');
+    const [replyTo, setReplyTo] = useState<number | null>(null);
+    const [replyContent, setReplyContent] = useState('');
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const fetchComments = async () => {
+        try {
+            const res = await authFetch(`/api/blog/${postId}/comments`, {}, authToken, onAuthError);
+            if (res.ok) {
+                setComments(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to fetch comments', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchComments();
+    }, [postId, authToken]);
+
+    const submit = async (text: string, parentId: number | null) => {
+        setError('');
+        setSuccess('');
+        try {
+            const res = await authFetch(`/api/blog/${postId}/comments`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ content: text, parentId })
+            }, authToken, onAuthError);
+            const data = await res.json();
+            if (res.ok) {
+                if (data.status === 'pending') {
+                    setSuccess('Merci ! Votre commentaire sera visible une fois validé par un modérateur.');
+                }
+                fetchComments();
+                return true;
+            } else if (res.status === 429) {
+                setError(`Trop de commentaires en peu de temps, réessayez dans ${Math.ceil(data.retryAfter / 60)} min.`);
+            } else {
+                setError(data.error || 'Failed to post comment');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+        return false;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!content.trim()) return;
+        if (await submit(content, null)) setContent('');
+    };
+
+    const handleReply = async (e: React.FormEvent, parentId: number) => {
+        e.preventDefault();
+        if (!replyContent.trim()) return;
+        if (await submit(replyContent, parentId)) {
+            setReplyContent('');
+            setReplyTo(null);
+        }
+    };
+
+    const renderComment = (comment: BlogComment, depth: number) => (
+        <li key={comment.id} className={`blog-comment ${comment.status === 'pending' ? 'blog-comment-pending' : ''}`}>
+            <div className="blog-comment-meta">
+                <span className="blog-comment-author" onClick={() => onOpenAuthor(comment.author.username)}>
+                    {comment.author.displayName || comment.author.username}
+                </span>
+                <span> · {new Date(comment.createdAt).toLocaleString('fr-FR')}</span>
+                {comment.status === 'pending' && <span className="badge badge-draft">En attente de modération</span>}
+            </div>
+            <p className="blog-comment-content">{comment.content}</p>
+            {authToken && comment.status === 'approved' && (
+                <button className="auth-toggle" onClick={() => { setReplyTo(replyTo === comment.id ? null : comment.id); setReplyContent(''); }}>
+                    Répondre
+                </button>
+            )}
+            {replyTo === comment.id && (
+                <form className="blog-comment-form" onSubmit={(e) => handleReply(e, comment.id)}>
+                    <textarea
+                        aria-label={`Répondre à ${comment.author.displayName || comment.author.username}`}
+                        value={replyContent}
+                        maxLength={MAX_LENGTH}
+                        onChange={(e) => setReplyContent(e.target.value)}
+                        rows={3}
+                    />
+                    <button type="submit" className="add-btn">Envoyer</button>
+                </form>
+            )}
+            {comment.replies.length > 0 && (
+                <ul className={`blog-comment-list ${depth < MAX_INDENT_DEPTH ? 'blog-comment-replies' : ''}`}>
+                    {comment.replies.map(reply => renderComment(reply, depth + 1))}
+                </ul>
+            )}
+        </li>
+    );
+
+    return (
+        <section className="blog-comments">
+            <h3>Commentaires ({countComments(comments)})</h3>
+            {error && <div className="error-message">{error}</div>}
+            {success && <p>{success}</p>}
+
+            {comments.length > 0 ? (
+                <ul className="blog-comment-list">
+                    {comments.map(comment => renderComment(comment, 0))}
+                </ul>
+            ) : (
+                <p className="blog-comment-empty">Aucun commentaire pour le moment.</p>
+            )}
+
+            {authToken ? (
+                <form className="blog-comment-form" onSubmit={handleSubmit}>
+                    <textarea
+                        placeholder="Votre commentaire..."
+                        aria-label="Nouveau commentaire"
+                        value={content}
+                        maxLength={MAX_LENGTH}
+                        onChange={(e) => setContent(e.target.value)}
+                        rows={4}
+                    />
+                    <button type="submit" className="add-btn">Commenter</button>
+                </form>
+            ) : (
+                <p className="blog-comment-empty">Connectez-vous pour laisser un commentaire.</p>
+            )}
+
+            <style>{`
+                .blog-comments {
+                    margin-top: 30px;
+                }
+                .blog-comment-list {
+                    list-style: none;
+                    padding: 0;
+                    margin: 0;
+                }
+                .blog-comment-replies {
+                    margin-left: 20px;
+                    padding-left: 15px;
+                    border-left: 2px solid var(--glass-border);
+                }
+                .blog-comment {
+                    padding: 10px 0;
+                }
+                .blog-comment-pending {
+                    opacity: 0.7;
+                }
+                .blog-comment-meta {
+                    font-size: 0.85em;
+                    color: var(--text-muted);
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                }
+                .blog-comment-author {
+                    font-weight: 600;
+                    color: var(--text);
+                    cursor: pointer;
+                }
+                .blog-comment-content {
+                    margin: 6px 0;
+                    white-space: pre-line;
+                }
+                .blog-comment-form {
+                    display: flex;
+                    flex-direction: column;
+                    align-items: flex-start;
+                    gap: 8px;
+                    margin-top: 10px;
+                }
+                .blog-comment-form textarea {
+                    width: 100%;
+                }
+                .blog-comment-empty {
+                    color: var(--text-muted);
+                }
+            `}</style>
+        </section>
+    );
+}
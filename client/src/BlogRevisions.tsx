@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+interface Revision {
+    id: number;
+    revision: number;
+    title: string;
+    createdAt: string;
+    editor: { username: string; displayName: string | null } | null;
+}
+
+interface RevisionDiff {
+    from: number;
+    to: number;
+    title: { before: string; after: string } | null;
+    lines: { type: 'equal' | 'added' | 'removed'; text: string }[];
+}
+
+interface BlogRevisionsProps {
+    postId: number;
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+    onRestored: () => void;
+}
+
+const LINE_PREFIX = { equal: ' ', added: '+', removed: '-' };
+
+export default function BlogRevisions({ postId, authToken, onAuthError, onRestored }: BlogRevisionsProps) {
+    const [revisions, setRevisions] = useState<Revision[]>([]);
+    const [from, setFrom] = useState<number | null>(null);
+    const [to, setTo] = useState<number | null>(null);
+    const [diff, setDiff] = useState<RevisionDiff | null>(null);
+    const [error, setError] = useState('');
+
+    const fetchRevisions = async (range?: { from: number; to: number }) => {
+        setError('');
+        const query = range ? `?from=${range.from}&to=${range.to}` : '';
+        try {
+            const res = await authFetch(`/api/blog/${postId}/revisions${query}`, {}, authToken, onAuthError);
+            if (res.ok) {
+                const data = await res.json();
+                setRevisions(data.revisions);
+                setDiff(data.diff || null);
+                // Compare the two latest revisions by default
+                if (!range && data.revisions.length > 1) {
+                    setFrom(data.revisions[1].revision);
+                    setTo(data.revisions[0].revision);
+                }
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to load revisions');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    useEffect(() => {
+        fetchRevisions();
+    }, [postId]);
+
+    useEffect(() => {
+        if (from !== null && to !== null) fetchRevisions({ from, to });
+    }, [from, to]);
+
+    const restore = async (revision: number) => {
+        if (!confirm(`Revenir à la révision ${revision} ? Le texte actuel restera dans l'historique.`)) return;
+        setError('');
+        try {
+            const res = await authFetch(`/api/blog/${postId}/revisions/${revision}/restore`, { method: 'POST' }, authToken, onAuthError);
+            if (res.ok) {
+                onRestored();
+                fetchRevisions();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Restore failed');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    return (
+        <section className="blog-revisions glass">
+            <h3>Historique des modifications</h3>
+            {error && <div className="error-message">{error}</div>}
+            <table className="revision-table">
+                <thead>
+                    <tr>
+                        <th>De</th>
+                        <th>À</th>
+                        <th>Révision</th>
+                        <th>Date</th>
+                        <th>Auteur</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {revisions.map((revision, index) => (
+                        <tr key={revision.id}>
+                            <td>
+                                <input type="radio" name="revision-from" aria-label={`Comparer depuis la révision ${revision.revision}`}
+                                    checked={from === revision.revision} onChange={() => setFrom(revision.revision)} />
+                            </td>
+                            <td>
+                                <input type="radio" name="revision-to" aria-label={`Comparer jusqu'à la révision ${revision.revision}`}
+                                    checked={to === revision.revision} onChange={() => setTo(revision.revision)} />
+                            </td>
+                            <td>#{revision.revision} {revision.title}</td>
+                            <td>{new Date(revision.createdAt).toLocaleString('fr-FR')}</td>
+                            <td>{revision.editor ? (revision.editor.displayName || revision.editor.username) : '—'}</td>
+                            <td>
+                                {index > 0 && (
+                                    <button className="auth-toggle" onClick={() => restore(revision.revision)}>Restaurer</button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {diff && (
+                <div className="revision-diff">
+                    {diff.title && (
+                        <p>Titre : <del>{diff.title.before}</del> → <ins>{diff.title.after}</ins></p>
+                    )}
+                    <pre>
+                        {diff.lines.map((line, i) => (
+                            <div key={i} className={`diff-line diff-${line.type}`}>{LINE_PREFIX[line.type]} {line.text}</div>
+                        ))}
+                    </pre>
+                </div>
+            )}
+
+            <style>{`
+                .blog-revisions {
+                    margin-top: 20px;
+                    padding: 20px;
+                    border-radius: 16px;
+                }
+                .revision-table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-size: 0.9em;
+                }
+                .revision-table th, .revision-table td {
+                    padding: 6px 8px;
+                    text-align: left;
+                    border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+                }
+                .revision-diff pre {
+                    margin-top: 15px;
+                    padding: 10px;
+                    border-radius: 8px;
+                    background: rgba(0, 0, 0, 0.3);
+                    overflow-x: auto;
+                    white-space: pre-wrap;
+                }
+                .diff-added {
+                    background: rgba(16, 185, 129, 0.2);
+                }
+                .diff-removed {
+                    background: rgba(255, 83, 85, 0.2);
+                }
+                .revision-diff del {
+                    color: var(--primary);
+                }
+                .revision-diff ins {
+                    color: #10b981;
+                    text-decoration: none;
+                }
+            `}</style>
+        </section>
+    );
+}
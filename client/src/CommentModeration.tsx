@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+type CommentStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+interface CommentAuthor {
+    username: string;
+    displayName: string | null;
+}
+
+interface QueuedComment {
+    id: number;
+    content: string;
+    status: CommentStatus;
+    createdAt: string;
+    moderatedAt: string | null;
+    author: CommentAuthor;
+    blogPost: { id: number; title: string; slug: string };
+    parent: { id: number; content: string; author: CommentAuthor } | null;
+    moderatedBy: { username: string } | null;
+}
+
+interface CommentModerationProps {
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+    onOpenPost: (slug: string) => void;
+}
+
+const STATUS_LABELS: Record<CommentStatus, string> = {
+    pending: 'En attente',
+    approved: 'Approuvés',
+    rejected: 'Rejetés',
+    spam: 'Spam',
+};
+
+const authorName = (author: CommentAuthor) => author.displayName || author.username;
+
+export default function CommentModeration({ authToken, onAuthError, onOpenPost }: CommentModerationProps) {
+    const [comments, setComments] = useState<QueuedComment[]>([]);
+    const [counts, setCounts] = useState<Record<CommentStatus, number>>({ pending: 0, approved: 0, rejected: 0, spam: 0 });
+    const [status, setStatus] = useState<CommentStatus>('pending');
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [error, setError] = useState('');
+
+    const fetchQueue = async () => {
+        try {
+            const res = await authFetch(`/api/comments/moderation?status=${status}&page=${page}`, {}, authToken, onAuthError);
+            if (res.ok) {
+                const data = await res.json();
+                setComments(data.comments);
+                setCounts(data.counts);
+                setTotalPages(Math.max(data.pagination.totalPages, 1));
+            } else {
+                setError('Failed to load comments');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    useEffect(() => {
+        fetchQueue();
+    }, [status, page, authToken]);
+
+    const moderate = async (comment: QueuedComment, newStatus: Exclude<CommentStatus, 'pending'>) => {
+        setError('');
+        try {
+            const res = await authFetch(`/api/comments/${comment.id}/moderation`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ status: newStatus })
+            }, authToken, onAuthError);
+            if (res.ok) {
+                fetchQueue();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Moderation failed');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    return (
+        <div className="comment-moderation">
+            <h2>Modération des commentaires</h2>
+            {error && <div className="error-message">{error}</div>}
+
+            <div className="comment-moderation-tabs">
+                {(Object.keys(STATUS_LABELS) as CommentStatus[]).map(key => (
+                    <button
+                        key={key}
+                        className={`nav-link ${status === key ? 'active' : ''}`}
+                        onClick={() => { setStatus(key); setPage(1); }}
+                    >
+                        {STATUS_LABELS[key]} ({counts[key]})
+                    </button>
+                ))}
+            </div>
+
+            {comments.length === 0 ? (
+                <p style={{ textAlign: 'center', color: 'var(--text-muted)' }}>Aucun commentaire.</p>
+            ) : (
+                <ul className="comment-moderation-list">
+                    {comments.map(comment => (
+                        <li key={comment.id} className="glass">
+                            <div className="comment-moderation-meta">
+                                <strong>{authorName(comment.author)}</strong> sur{' '}
+                                <a href={`/blog/${comment.blogPost.slug}`} onClick={(e) => { e.preventDefault(); onOpenPost(comment.blogPost.slug); }}>
+                                    {comment.blogPost.title}
+                                </a>
+                                {' · '}{new Date(comment.createdAt).toLocaleString('fr-FR')}
+                            </div>
+                            {comment.parent && (
+                                <blockquote>En réponse à {authorName(comment.parent.author)} : {comment.parent.content}</blockquote>
+                            )}
+                            <p>{comment.content}</p>
+                            {comment.moderatedBy && comment.moderatedAt && (
+                                <div className="comment-moderation-meta">
+                                    Modéré par {comment.moderatedBy.username} le {new Date(comment.moderatedAt).toLocaleString('fr-FR')}
+                                </div>
+                            )}
+                            <div className="comment-moderation-actions">
+                                {comment.status !== 'approved' && <button className="add-btn" onClick={() => moderate(comment, 'approved')}>Approuver</button>}
+                                {comment.status !== 'rejected' && <button className="auth-toggle" onClick={() => moderate(comment, 'rejected')}>Rejeter</button>}
+                                {comment.status !== 'spam' && <button className="delete-btn" onClick={() => moderate(comment, 'spam')}>Spam</button>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="comment-moderation-pagination">
+                <button disabled={page <= 1} onClick={() => setPage(page - 1)}>←</button>
+                <span>{page} / {totalPages}</span>
+                <button disabled={page >= totalPages} onClick={() => setPage(page + 1)}>→</button>
+            </div>
+
+            <style>{`
+                .comment-moderation {
+                    padding: 20px;
+                    max-width: 900px;
+                    margin: 0 auto;
+                }
+                .comment-moderation-tabs {
+                    display: flex;
+                    gap: 1.5rem;
+                    margin-bottom: 20px;
+                }
+                .comment-moderation-list {
+                    list-style: none;
+                    padding: 0;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 12px;
+                }
+                .comment-moderation-list li {
+                    padding: 15px 20px;
+                    border-radius: 12px;
+                }
+                .comment-moderation-list p {
+                    white-space: pre-line;
+                }
+                .comment-moderation-list blockquote {
+                    margin: 8px 0;
+                    padding-left: 10px;
+                    border-left: 2px solid var(--glass-border);
+                    color: var(--text-muted);
+                    font-size: 0.9em;
+                }
+                .comment-moderation-meta {
+                    font-size: 0.85em;
+                    color: var(--text-muted);
+                }
+                .comment-moderation-actions {
+                    display: flex;
+                    gap: 10px;
+                    align-items: center;
+                }
+                .comment-moderation-pagination {
+                    display: flex;
+                    justify-content: center;
+                    align-items: center;
+                    gap: 15px;
+                    margin-top: 20px;
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -1,32 +1,159 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
+import {
+    DndContext,
+    closestCenter,
+    KeyboardSensor,
+    PointerSensor,
+    useSensor,
+    useSensors,
+    DragEndEvent,
+} from '@dnd-kit/core';
+import {
+    arrayMove,
+    SortableContext,
+    sortableKeyboardCoordinates,
+    rectSortingStrategy,
+    useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import ResponsiveImage, { ResponsiveSources, ImagePlaceholder } from './ResponsiveImage';
+import { authFetch } from './authFetch';
 
-interface Photo {
+interface Photo extends ImagePlaceholder {
     id: number;
     name: string;
     tag: string;
     filename: string;
+    position: number;
     width?: number;
     height?: number;
+    srcset: ResponsiveSources | null;
     createdAt: string;
 }
 
+interface SortablePhotoProps {
+    photo: Photo;
+    canEdit: boolean;
+    onOpen: () => void;
+    onNavigate: () => void;
+    onEdit: () => void;
+    onDelete: () => void;
+}
+
+function SortablePhoto({ photo, canEdit, onOpen, onNavigate, onEdit, onDelete }: SortablePhotoProps) {
+    const {
+        attributes,
+        listeners,
+        setNodeRef,
+        setActivatorNodeRef,
+        transform,
+        transition,
+        isDragging,
+    } = useSortable({ id: photo.id, disabled: !canEdit }); // Disable sorting for read-only viewers
+
+    const style = {
+        transform: CSS.Transform.toString(transform),
+        transition,
+        opacity: isDragging ? 0.5 : 1,
+        zIndex: isDragging ? 100 : 'auto',
+    };
+
+    return (
+        <div ref={setNodeRef} style={style} className="gallery-item">
+            <div
+                className="image-wrapper"
+                role="button"
+                tabIndex={0}
+                onClick={onOpen}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        onOpen();
+                    }
+                }}
+            >
+                <ResponsiveImage
+                    src={`/uploads/gallery/${photo.filename}`}
+                    srcset={photo.srcset}
+                    preview={photo}
+                    sizes="(max-width: 600px) 100vw, 33vw"
+                    alt={`Photo : ${photo.name}`}
+                    loading="lazy"
+                />
+            </div>
+            <div className="photo-info">
+                <span
+                    className="photo-name clickable"
+                    role="button"
+                    tabIndex={0}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ' ') {
+                            e.preventDefault();
+                            onNavigate();
+                        }
+                    }}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onNavigate();
+                    }}
+                    style={{ cursor: 'pointer', textDecoration: 'underline' }}
+                >
+                    {photo.name}
+                </span>
+                <span className="photo-tag">{photo.tag}</span>
+                {canEdit && (
+                    <div className="photo-admin-actions">
+                        <button
+                            ref={setActivatorNodeRef}
+                            className="action-btn photo-drag-handle"
+                            aria-label="Déplacer la photo"
+                            {...attributes}
+                            {...listeners}
+                        >
+                            ⠿
+                        </button>
+                        <button className="action-btn edit-btn" aria-label="Modifier la photo" onClick={onEdit}>
+                            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
+                                <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
+                            </svg>
+                        </button>
+                        <button className="action-btn delete-btn" aria-label="Supprimer la photo" onClick={onDelete}>
+                            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M3 6h18m-2 0v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6m3 0V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path>
+                            </svg>
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
 interface GalleryProps {
     authToken: string;
-    userRole: string;
+    onAuthError: () => Promise<string | null>;
+    permissions: string[];
     onNavigate: (id: number) => void;
 }
 
-export default function Gallery({ authToken, userRole, onNavigate }: GalleryProps) {
+export default function Gallery({ authToken, onAuthError, permissions, onNavigate }: GalleryProps) {
     const [photos, setPhotos] = useState<Photo[]>([]);
     const [filterTag, setFilterTag] = useState<string | null>(null);
     const [isUploading, setIsUploading] = useState(false);
     const [formData, setFormData] = useState({ name: '', tag: '' });
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [fullscreenPhoto, setFullscreenPhoto] = useState<string | null>(null);
+    const [editing, setEditing] = useState<{ id: number; name: string; tag: string } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const isAdmin = userRole === 'admin';
+    const canEdit = permissions.includes('gallery:write');
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
 
     useEffect(() => {
         fetchPhotos();
@@ -57,13 +184,10 @@ export default function Gallery({ authToken, userRole, onNavigate }: GalleryProp
         form.append('photo', selectedFile);
 
         try {
-            const res = await fetch('/api/photos', {
+            const res = await authFetch('/api/photos', {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`
-                },
                 body: form
-            });
+            }, authToken, onAuthError);
 
             if (res.ok) {
                 const newPhoto = await res.json();
@@ -82,6 +206,77 @@ export default function Gallery({ authToken, userRole, onNavigate }: GalleryProp
         }
     };
 
+    const handleUpdate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        if (!editing.name.trim() || !editing.tag.trim()) {
+            alert('Le nom et le tag sont obligatoires.');
+            return;
+        }
+
+        try {
+            const res = await authFetch(`/api/photos/${editing.id}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: editing.name, tag: editing.tag })
+            }, authToken, onAuthError);
+
+            if (res.ok) {
+                const updated = await res.json();
+                setPhotos(photos.map(p => (p.id === updated.id ? updated : p)));
+                setEditing(null);
+            } else {
+                const error = await res.json();
+                alert(`Erreur: ${error.message || 'Update failed'}`);
+            }
+        } catch (error) {
+            console.error('Update error:', error);
+            alert('Erreur lors de la modification');
+        }
+    };
+
+    const handleDelete = async (photo: Photo) => {
+        if (!confirm(`Supprimer la photo « ${photo.name} » ? Elle restera dans la corbeille jusqu'à la purge.`)) return;
+
+        try {
+            const res = await authFetch(`/api/photos/${photo.id}`, { method: 'DELETE' }, authToken, onAuthError);
+
+            if (res.ok) {
+                setPhotos(photos.filter(p => p.id !== photo.id));
+                if (editing?.id === photo.id) setEditing(null);
+            } else {
+                const error = await res.json();
+                alert(`Erreur: ${error.message || 'Delete failed'}`);
+            }
+        } catch (error) {
+            console.error('Delete error:', error);
+            alert('Erreur lors de la suppression');
+        }
+    };
+
+    // Positions are global: with a tag filter, the photo takes the place of the one it was dropped on
+    const handleDragEnd = async (event: DragEndEvent) => {
+        if (!canEdit) return;
+        const { active, over } = event;
+        if (over && active.id !== over.id) {
+            const oldIndex = photos.findIndex((p) => p.id === active.id);
+            const newIndex = photos.findIndex((p) => p.id === over.id);
+            const newPhotos = arrayMove(photos, oldIndex, newIndex);
+            setPhotos(newPhotos);
+
+            const res = await authFetch('/api/photos/reorder', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ ids: newPhotos.map((p) => p.id) })
+            }, authToken, onAuthError);
+            if (!res.ok) fetchPhotos();
+        }
+    };
+
     const uniqueTags = Array.from(new Set(photos.map(p => p.tag)));
     const filteredPhotos = filterTag ? photos.filter(p => p.tag === filterTag) : photos;
 
@@ -89,7 +284,7 @@ export default function Gallery({ authToken, userRole, onNavigate }: GalleryProp
         <div className="gallery-container">
             <div className="gallery-header">
                 <h1>Galerie Photo</h1>
-                {isAdmin && (
+                {canEdit && (
                     <button className="add-btn" onClick={() => setIsUploading(!isUploading)}>
                         {isUploading ? 'Annuler' : '+ Ajouter une photo'}
                     </button>
@@ -119,9 +314,6 @@ export default function Gallery({ authToken, userRole, onNavigate }: GalleryProp
                             className="gallery-input"
                             list="tags-list"
                         />
-                        <datalist id="tags-list">
-                            {uniqueTags.map(tag => <option key={tag} value={tag} />)}
-                        </datalist>
                     </div>
                     <div className="form-group">
                         <input
@@ -135,6 +327,41 @@ export default function Gallery({ authToken, userRole, onNavigate }: GalleryProp
                 </form>
             )}
 
+            {editing && (
+                <form onSubmit={handleUpdate} className="gallery-upload-form">
+                    <h3>Modifier la photo</h3>
+                    <div className="form-group">
+                        <input
+                            type="text"
+                            placeholder="Nom de la photo"
+                            aria-label="Nom de la photo"
+                            value={editing.name}
+                            onChange={e => setEditing({ ...editing, name: e.target.value })}
+                            className="gallery-input"
+                        />
+                    </div>
+                    <div className="form-group">
+                        <input
+                            type="text"
+                            placeholder="Tag (ex: SciFi, Fantasy)"
+                            aria-label="Tag ou catégorie"
+                            value={editing.tag}
+                            onChange={e => setEditing({ ...editing, tag: e.target.value })}
+                            className="gallery-input"
+                            list="tags-list"
+                        />
+                    </div>
+                    <div className="photo-edit-actions">
+                        <button type="submit" className="submit-btn">Enregistrer</button>
+                        <button type="button" className="nav-btn" onClick={() => setEditing(null)}>Annuler</button>
+                    </div>
+                </form>
+            )}
+
+            <datalist id="tags-list">
+                {uniqueTags.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+
             <div className="gallery-filters">
                 <button
                     className={`filter-btn ${filterTag === null ? 'active' : ''}`}
@@ -154,45 +381,21 @@ export default function Gallery({ authToken, userRole, onNavigate }: GalleryProp
             </div>
 
             <div className="gallery-grid">
-                {filteredPhotos.map(photo => (
-                    <div key={photo.id} className="gallery-item">
-                        <div
-                            className="image-wrapper"
-                            role="button"
-                            tabIndex={0}
-                            onClick={() => setFullscreenPhoto(photo.filename)}
-                            onKeyDown={(e) => {
-                                if (e.key === 'Enter' || e.key === ' ') {
-                                    e.preventDefault();
-                                    setFullscreenPhoto(photo.filename);
-                                }
-                            }}
-                        >
-                            <img src={`/uploads/gallery/${photo.filename}`} alt={`Photo : ${photo.name}`} loading="lazy" />
-                        </div>
-                        <div className="photo-info">
-                            <span
-                                className="photo-name clickable"
-                                role="button"
-                                tabIndex={0}
-                                onKeyDown={(e) => {
-                                    if (e.key === 'Enter' || e.key === ' ') {
-                                        e.preventDefault();
-                                        onNavigate(photo.id);
-                                    }
-                                }}
-                                onClick={(e) => {
-                                    e.stopPropagation();
-                                    onNavigate(photo.id);
-                                }}
-                                style={{ cursor: 'pointer', textDecoration: 'underline' }}
-                            >
-                                {photo.name}
-                            </span>
-                            <span className="photo-tag">{photo.tag}</span>
-                        </div>
-                    </div>
-                ))}
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                    <SortableContext items={filteredPhotos.map(p => p.id)} strategy={rectSortingStrategy}>
+                        {filteredPhotos.map(photo => (
+                            <SortablePhoto
+                                key={photo.id}
+                                photo={photo}
+                                canEdit={canEdit}
+                                onOpen={() => setFullscreenPhoto(photo.filename)}
+                                onNavigate={() => onNavigate(photo.id)}
+                                onEdit={() => setEditing({ id: photo.id, name: photo.name, tag: photo.tag })}
+                                onDelete={() => handleDelete(photo)}
+                            />
+                        ))}
+                    </SortableContext>
+                </DndContext>
             </div>
 
             {fullscreenPhoto && createPortal(
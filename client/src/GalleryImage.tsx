@@ -1,15 +1,43 @@
 import React, { useState, useEffect } from 'react';
+import ResponsiveImage, { ResponsiveSources, ImagePlaceholder } from './ResponsiveImage';
 
-interface Photo {
+interface Photo extends ImagePlaceholder {
     id: number;
     name: string;
     tag: string;
     filename: string;
     width?: number;
     height?: number;
+    srcset: ResponsiveSources | null;
+    // Shooting details kept from the EXIF of the upload
+    cameraMake: string | null;
+    cameraModel: string | null;
+    lensModel: string | null;
+    focalLength: number | null;
+    aperture: number | null;
+    exposureTime: number | null;
+    iso: number | null;
+    takenAt: string | null;
     createdAt: string;
 }
 
+// "Canon Canon EOS R6" is common: the model often repeats the make
+const cameraName = (photo: Photo) => {
+    if (!photo.cameraModel) return photo.cameraMake;
+    if (!photo.cameraMake || photo.cameraModel.toLowerCase().startsWith(photo.cameraMake.toLowerCase())) return photo.cameraModel;
+    return `${photo.cameraMake} ${photo.cameraModel}`;
+};
+
+const formatExposure = (seconds: number) =>
+    seconds < 1 ? `1/${Math.round(1 / seconds)} s` : `${seconds} s`;
+
+const shootingSettings = (photo: Photo) => [
+    photo.focalLength && `${Math.round(photo.focalLength)} mm`,
+    photo.aperture && `f/${photo.aperture.toFixed(1).replace(/\.0$/, '')}`,
+    photo.exposureTime && formatExposure(photo.exposureTime),
+    photo.iso && `ISO ${photo.iso}`,
+].filter(Boolean).join(' · ');
+
 interface GalleryImageProps {
     imageId: number;
     onBack: () => void;
@@ -51,7 +79,13 @@ export default function GalleryImage({ imageId, onBack }: GalleryImageProps) {
             <button className="back-btn" onClick={onBack}>← Retour à la galerie</button>
             <div className="gallery-image-content">
                 <div className="image-wrapper-large">
-                    <img src={`/uploads/gallery/${photo.filename}`} alt={photo.name} />
+                    <ResponsiveImage
+                        src={`/uploads/gallery/${photo.filename}`}
+                        srcset={photo.srcset}
+                        preview={photo}
+                        sizes="(max-width: 900px) 100vw, 60vw"
+                        alt={photo.name}
+                    />
                 </div>
                 <div className="image-details">
                     <h1>{photo.name}</h1>
@@ -64,6 +98,15 @@ export default function GalleryImage({ imageId, onBack }: GalleryImageProps) {
                             Dimensions: {photo.width} x {photo.height}
                         </div>
                     )}
+                    {(cameraName(photo) || photo.lensModel || shootingSettings(photo) || photo.takenAt) && (
+                        <div className="camera-info">
+                            {cameraName(photo) && <div>Appareil : {cameraName(photo)}</div>}
+                            {photo.lensModel && <div>Objectif : {photo.lensModel}</div>}
+                            {shootingSettings(photo) && <div>Réglages : {shootingSettings(photo)}</div>}
+                            {/* The camera clock has no time zone, it is stored as is in UTC */}
+                            {photo.takenAt && <div>Pris le {new Date(photo.takenAt).toLocaleDateString(undefined, { timeZone: 'UTC' })}</div>}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
 
 interface GameRanking {
     id: number;
@@ -11,11 +12,11 @@ interface GameRanking {
 
 interface GameRankingProps {
     authToken: string;
-    userRole: string;
-    onAuthError: () => void;
+    permissions: string[];
+    onAuthError: () => Promise<string | null>;
 }
 
-export default function GameRanking({ authToken, userRole, onAuthError }: GameRankingProps) {
+export default function GameRanking({ authToken, permissions, onAuthError }: GameRankingProps) {
     const [rankings, setRankings] = useState<GameRanking[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
@@ -27,7 +28,7 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
     const [comment, setComment] = useState('');
     const [editingId, setEditingId] = useState<number | null>(null);
 
-    const isAdmin = userRole === 'admin';
+    const canEdit = permissions.includes('gamerankings:write');
 
     const fetchRankings = async () => {
         try {
@@ -60,14 +61,13 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
         const method = editingId ? 'PUT' : 'POST';
 
         try {
-            const res = await fetch(url, {
+            const res = await authFetch(url, {
                 method,
                 headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${authToken}`
+                    'Content-Type': 'application/json'
                 },
                 body: JSON.stringify({ gameName, rating: Number(rating), genre, comment })
-            });
+            }, authToken, onAuthError);
 
             if (res.ok) {
                 setGameName('');
@@ -77,12 +77,8 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
                 setEditingId(null);
                 fetchRankings();
             } else {
-                if (res.status === 401) {
-                    onAuthError();
-                } else {
-                    const data = await res.json();
-                    setError(data.error || 'Operation failed');
-                }
+                const data = await res.json();
+                setError(data.error || 'Operation failed');
             }
         } catch (err) {
             setError('Network error');
@@ -104,18 +100,12 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
         if (!confirm('Are you sure you want to delete this rating?')) return;
 
         try {
-            const res = await fetch(`/api/gamerankings/${id}`, {
-                method: 'DELETE',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`
-                }
-            });
+            const res = await authFetch(`/api/gamerankings/${id}`, { method: 'DELETE' }, authToken, onAuthError);
 
             if (res.ok) {
                 fetchRankings();
             } else {
-                if (res.status === 401) onAuthError();
-                else setError('Failed to delete');
+                setError('Failed to delete');
             }
         } catch (err) {
             setError('Network error');
@@ -174,7 +164,7 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
 
             {error && <div className="error-message">{error}</div>}
 
-            {isAdmin && (
+            {canEdit && (
                 <form onSubmit={handleSubmit} className="ranking-form">
                     <h3>{editingId ? 'Modifier le classement' : 'Ajouter un classement'}</h3>
                     <div className="form-group">
@@ -240,7 +230,7 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
                                 Genre {getSortIndicator('genre')}
                             </th>
                             <th>Commentaire</th>
-                            {isAdmin && <th>Actions</th>}
+                            {canEdit && <th>Actions</th>}
                         </tr>
                     </thead>
                     <tbody>
@@ -254,7 +244,7 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
                                 </td>
                                 <td>{ranking.genre}</td>
                                 <td>{ranking.comment}</td>
-                                {isAdmin && (
+                                {canEdit && (
                                     <td>
                                         <button onClick={() => handleEdit(ranking)} className="icon-btn edit-btn" title="Modifier">
                                             ✏️
@@ -268,7 +258,7 @@ export default function GameRanking({ authToken, userRole, onAuthError }: GameRa
                         ))}
                         {sortedRankings.length === 0 && (
                             <tr>
-                                <td colSpan={isAdmin ? 5 : 4} className="no-data">
+                                <td colSpan={canEdit ? 5 : 4} className="no-data">
                                     Aucun classement disponible.
                                 </td>
                             </tr>
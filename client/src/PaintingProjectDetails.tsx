@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import ReactGA from 'react-ga4';
+import ResponsiveImage, { ResponsiveSources, ImagePlaceholder } from './ResponsiveImage';
 
-interface PaintingImage {
+interface PaintingImage extends ImagePlaceholder {
     id: number;
     filename: string;
+    srcset: ResponsiveSources | null;
 }
 
 interface PaintingProject {
@@ -88,7 +90,14 @@ export default function PaintingProjectDetails({ projectId, onBack }: PaintingPr
                 <div className="project-gallery">
                     {project.images.map(img => (
                         <div key={img.id} className="gallery-item" onClick={() => openLightbox(img.filename)}>
-                            <img src={`/uploads/painting/${img.filename}`} alt="Detail" loading="lazy" />
+                            <ResponsiveImage
+                                src={`/uploads/painting/${img.filename}`}
+                                srcset={img.srcset}
+                                preview={img}
+                                sizes="(max-width: 600px) 100vw, 33vw"
+                                alt="Detail"
+                                loading="lazy"
+                            />
                         </div>
                     ))}
                 </div>
@@ -2,10 +2,13 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import ReactGA from 'react-ga4';
+import ResponsiveImage, { ResponsiveSources, ImagePlaceholder } from './ResponsiveImage';
+import { authFetch } from './authFetch';
 
-interface PaintingImage {
+interface PaintingImage extends ImagePlaceholder {
     id: number;
     filename: string;
+    srcset: ResponsiveSources | null;
 }
 
 interface PaintingProject {
@@ -18,12 +21,12 @@ interface PaintingProject {
 
 interface PaintingProjectsProps {
     authToken: string;
-    userRole: string;
-    onAuthError: () => void;
+    permissions: string[];
+    onAuthError: () => Promise<string | null>;
     onNavigate: (id: number) => void;
 }
 
-export default function PaintingProjects({ authToken, userRole, onAuthError, onNavigate }: PaintingProjectsProps) {
+export default function PaintingProjects({ authToken, permissions, onAuthError, onNavigate }: PaintingProjectsProps) {
     const [projects, setProjects] = useState<PaintingProject[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
@@ -36,7 +39,7 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
     const [description, setDescription] = useState('');
     const [files, setFiles] = useState<FileList | null>(null);
 
-    const isAdmin = userRole === 'admin';
+    const canEdit = permissions.includes('painting:write');
 
     const fetchProjects = async () => {
         try {
@@ -63,14 +66,13 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
         if (editingId) {
             // Update existing project (metadata only)
             try {
-                const res = await fetch(`/api/painting-projects/${editingId}`, {
+                const res = await authFetch(`/api/painting-projects/${editingId}`, {
                     method: 'PUT',
                     headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${authToken}`
+                        'Content-Type': 'application/json'
                     },
                     body: JSON.stringify({ title, status, description })
-                });
+                }, authToken, onAuthError);
 
                 if (res.ok) {
                     await uploadImages(editingId); // Upload new images if any
@@ -96,13 +98,10 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
             }
 
             try {
-                const res = await fetch('/api/painting-projects', {
+                const res = await authFetch('/api/painting-projects', {
                     method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${authToken}`
-                    },
                     body: formData
-                });
+                }, authToken, onAuthError);
 
                 if (res.ok) {
                     resetForm();
@@ -125,13 +124,10 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
         });
 
         try {
-            const res = await fetch(`/api/painting-projects/${projectId}/images`, {
+            const res = await authFetch(`/api/painting-projects/${projectId}/images`, {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`
-                },
                 body: formData
-            });
+            }, authToken, onAuthError);
 
             if (!res.ok) handleError(res);
         } catch (err) {
@@ -143,10 +139,7 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
         if (!confirm('Are you sure you want to delete this project?')) return;
 
         try {
-            const res = await fetch(`/api/painting-projects/${id}`, {
-                method: 'DELETE',
-                headers: { 'Authorization': `Bearer ${authToken}` }
-            });
+            const res = await authFetch(`/api/painting-projects/${id}`, { method: 'DELETE' }, authToken, onAuthError);
 
             if (res.ok) {
                 fetchProjects();
@@ -162,10 +155,7 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
         if (!confirm('Delete this image?')) return;
 
         try {
-            const res = await fetch(`/api/painting-projects/images/${imageId}`, {
-                method: 'DELETE',
-                headers: { 'Authorization': `Bearer ${authToken}` }
-            });
+            const res = await authFetch(`/api/painting-projects/images/${imageId}`, { method: 'DELETE' }, authToken, onAuthError);
 
             if (res.ok) {
                 fetchProjects();
@@ -197,11 +187,8 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
     };
 
     const handleError = async (res: Response) => {
-        if (res.status === 401) onAuthError();
-        else {
-            const data = await res.json();
-            setError(data.error || 'Operation failed');
-        }
+        const data = await res.json();
+        setError(data.error || 'Operation failed');
     };
 
     const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -228,7 +215,7 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
 
             {error && <div className="error-message">{error}</div>}
 
-            {isAdmin && (
+            {canEdit && (
                 <div className="admin-actions">
                     <button
                         className="toggle-form-btn"
@@ -317,8 +304,11 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
                         <div className="project-images">
                             {project.images.map(img => (
                                 <div key={img.id} className="image-wrapper">
-                                    <img
+                                    <ResponsiveImage
                                         src={`/uploads/painting/${img.filename}`}
+                                        srcset={img.srcset}
+                                        preview={img}
+                                        sizes="(max-width: 600px) 50vw, 250px"
                                         alt={`Zoom sur l'image du projet: ${project.title}`}
                                         role="button"
                                         tabIndex={0}
@@ -331,7 +321,7 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
                                         onClick={() => openLightbox(img.filename)}
                                         className="clickable-image"
                                     />
-                                    {isAdmin && isEditing && editingId === project.id && (
+                                    {canEdit && isEditing && editingId === project.id && (
                                         <button
                                             className="delete-img-btn"
                                             aria-label="Supprimer l'image"
@@ -348,7 +338,7 @@ export default function PaintingProjects({ authToken, userRole, onAuthError, onN
                             ))}
                         </div>
 
-                        {isAdmin && (
+                        {canEdit && (
                             <div className="card-actions">
                                 <button onClick={() => handleEdit(project)} className="edit-btn">Modifier</button>
                                 <button onClick={() => handleDelete(project.id)} className="delete-btn">Supprimer</button>
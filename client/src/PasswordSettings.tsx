@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+interface PasswordPolicy {
+    minLength: number;
+    maxLength: number;
+}
+
+interface PasswordSettingsProps {
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+}
+
+export default function PasswordSettings({ authToken, onAuthError }: PasswordSettingsProps) {
+    const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    useEffect(() => {
+        fetch('/api/auth/password/policy')
+            .then(res => (res.ok ? res.json() : null))
+            .then(setPolicy)
+            .catch(() => setPolicy(null));
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSuccess('');
+
+        if (newPassword !== confirmation) {
+            setError('Les mots de passe ne correspondent pas');
+            return;
+        }
+
+        try {
+            const res = await authFetch('/api/auth/password', {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ currentPassword, newPassword })
+            }, authToken, onAuthError);
+
+            if (res.ok) {
+                setCurrentPassword('');
+                setNewPassword('');
+                setConfirmation('');
+                setSuccess('Mot de passe modifié. Les autres appareils ont été déconnectés.');
+            } else {
+                const data = await res.json();
+                setError(data.violations ? data.violations.join('. ') : data.error || 'Operation failed');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    return (
+        <section className="security-section glass">
+            <h3>Mot de passe</h3>
+
+            {error && <div className="error-message">{error}</div>}
+            {success && <p>{success}</p>}
+
+            <form onSubmit={handleSubmit} className="security-form">
+                <input
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Mot de passe actuel"
+                    aria-label="Mot de passe actuel"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    required
+                />
+                <input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Nouveau mot de passe"
+                    aria-label="Nouveau mot de passe"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    minLength={policy?.minLength}
+                    required
+                />
+                <input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Confirmer le nouveau mot de passe"
+                    aria-label="Confirmer le nouveau mot de passe"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    required
+                />
+                {policy && (
+                    <p className="password-policy">
+                        Au moins {policy.minLength} caractères, sans votre identifiant ni mot de passe trop courant.
+                    </p>
+                )}
+                <button type="submit" className="add-btn">Changer le mot de passe</button>
+            </form>
+        </section>
+    );
+}
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+interface ProfileLink {
+    label: string;
+    url: string;
+}
+
+interface ProfileSettingsProps {
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+    onOpenAuthor: () => void;
+}
+
+export default function ProfileSettings({ authToken, onAuthError, onOpenAuthor }: ProfileSettingsProps) {
+    const [displayName, setDisplayName] = useState('');
+    const [bio, setBio] = useState('');
+    const [links, setLinks] = useState<ProfileLink[]>([]);
+    const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const applyProfile = (data: { displayName: string | null; bio: string | null; links: ProfileLink[] | null; avatarUrl: string | null }) => {
+        setDisplayName(data.displayName || '');
+        setBio(data.bio || '');
+        setLinks(data.links || []);
+        setAvatarUrl(data.avatarUrl);
+    };
+
+    useEffect(() => {
+        authFetch('/api/users/me/profile', {}, authToken, onAuthError)
+            .then(async res => {
+                if (res.ok) applyProfile(await res.json());
+            })
+            .catch(() => setError('Network error'));
+    }, [authToken]);
+
+    const handleFailure = async (res: Response) => {
+        const data = await res.json();
+        setError(data.error || 'Operation failed');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSuccess('');
+        try {
+            const res = await authFetch('/api/users/me/profile', {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ displayName, bio, links: links.filter(link => link.url.trim()) })
+            }, authToken, onAuthError);
+            if (res.ok) {
+                applyProfile(await res.json());
+                setSuccess('Profil enregistré.');
+            } else {
+                await handleFailure(res);
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setError('');
+
+        const formData = new FormData();
+        formData.append('avatar', file);
+        try {
+            const res = await authFetch('/api/users/me/avatar', {
+                method: 'POST',
+                body: formData
+            }, authToken, onAuthError);
+            if (res.ok) {
+                applyProfile(await res.json());
+            } else {
+                await handleFailure(res);
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+        e.target.value = '';
+    };
+
+    const removeAvatar = async () => {
+        try {
+            const res = await authFetch('/api/users/me/avatar', { method: 'DELETE' }, authToken, onAuthError);
+            if (res.ok) setAvatarUrl(null);
+            else await handleFailure(res);
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    const updateLink = (index: number, field: keyof ProfileLink, value: string) =>
+        setLinks(links.map((link, i) => (i === index ? { ...link, [field]: value } : link)));
+
+    return (
+        <section className="security-section glass">
+            <h3>Profil public</h3>
+
+            {error && <div className="error-message">{error}</div>}
+            {success && <p>{success}</p>}
+
+            <div className="profile-avatar">
+                {avatarUrl && <img src={avatarUrl} alt="Avatar" width={64} height={64} />}
+                <label className="add-btn">
+                    {avatarUrl ? "Changer l'avatar" : 'Ajouter un avatar'}
+                    <input type="file" accept="image/jpeg,image/png,image/webp,image/avif" onChange={handleAvatarChange} hidden />
+                </label>
+                {avatarUrl && <button className="auth-toggle" onClick={removeAvatar}>Retirer</button>}
+            </div>
+
+            <form onSubmit={handleSubmit} className="security-form">
+                <input
+                    type="text"
+                    placeholder="Nom affiché"
+                    aria-label="Nom affiché"
+                    maxLength={60}
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                />
+                <textarea
+                    placeholder="Biographie"
+                    aria-label="Biographie"
+                    maxLength={1000}
+                    rows={4}
+                    value={bio}
+                    onChange={(e) => setBio(e.target.value)}
+                />
+                {links.map((link, index) => (
+                    <div key={index} className="profile-link">
+                        <input
+                            type="text"
+                            placeholder="Libellé"
+                            aria-label="Libellé du lien"
+                            value={link.label}
+                            onChange={(e) => updateLink(index, 'label', e.target.value)}
+                        />
+                        <input
+                            type="url"
+                            placeholder="https://..."
+                            aria-label="Adresse du lien"
+                            value={link.url}
+                            onChange={(e) => updateLink(index, 'url', e.target.value)}
+                        />
+                        <button type="button" className="auth-toggle" onClick={() => setLinks(links.filter((_, i) => i !== index))}>✕</button>
+                    </div>
+                ))}
+                {links.length < 10 && (
+                    <button type="button" className="auth-toggle" onClick={() => setLinks([...links, { label: '', url: '' }])}>
+                        + Ajouter un lien
+                    </button>
+                )}
+                <button type="submit" className="add-btn">Enregistrer le profil</button>
+            </form>
+            <button className="auth-toggle" onClick={onOpenAuthor}>Voir ma page publique</button>
+        </section>
+    );
+}
@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+
+// srcset values built by the server from the image variants
+export interface ResponsiveSources {
+    avif: string;
+    webp: string;
+}
+
+// Computed by the server at upload time, null for images it has not processed yet
+export interface ImagePlaceholder {
+    placeholder: string | null;
+    dominantColor: string | null;
+}
+
+interface ResponsiveImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+    src: string;
+    srcset?: ResponsiveSources | null;
+    // Rendered width of the image, lets the browser pick the right variant
+    sizes?: string;
+    // Blurry preview painted behind the image until it has loaded
+    preview?: ImagePlaceholder;
+}
+
+export default function ResponsiveImage({ src, srcset, sizes, preview, style, onLoad, ...imgProps }: ResponsiveImageProps) {
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        setLoaded(false);
+    }, [src]);
+
+    const placeholderStyle: React.CSSProperties | undefined = !loaded && preview ? {
+        backgroundColor: preview.dominantColor ?? undefined,
+        backgroundImage: preview.placeholder ? `url("${preview.placeholder}")` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+    } : undefined;
+
+    const img = (
+        <img
+            src={src}
+            {...imgProps}
+            style={{ ...placeholderStyle, ...style }}
+            onLoad={(e) => {
+                setLoaded(true);
+                onLoad?.(e);
+            }}
+        />
+    );
+
+    // Images uploaded before the variants existed only have the original file
+    if (!srcset) {
+        return img;
+    }
+
+    return (
+        <picture className="responsive-image">
+            <source type="image/avif" srcSet={srcset.avif} sizes={sizes} />
+            <source type="image/webp" srcSet={srcset.webp} sizes={sizes} />
+            {img}
+        </picture>
+    );
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+
+type SearchType = 'blog' | 'photo' | 'painting' | 'gameranking' | 'videogame';
+
+interface SearchResult {
+    type: SearchType;
+    id: number;
+    title: string;
+    url: string;
+    // Escaped by the server, matches wrapped in <mark>
+    snippet: string;
+}
+
+interface SearchProps {
+    query: string;
+    onOpen: (url: string) => void;
+}
+
+const TYPE_LABELS: Record<SearchType, string> = {
+    blog: 'Article',
+    photo: 'Galerie',
+    painting: 'Peinture',
+    gameranking: 'Classement',
+    videogame: 'Jeux vidéo',
+};
+
+export default function Search({ query, onOpen }: SearchProps) {
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (query.trim().length < 2) {
+            setResults([]);
+            return;
+        }
+        setLoading(true);
+        setError('');
+        fetch(`/api/search?q=${encodeURIComponent(query)}`)
+            .then(async res => {
+                const data = await res.json();
+                if (res.ok) {
+                    setResults(data.results);
+                } else {
+                    setError(data.error || 'Search failed');
+                }
+            })
+            .catch(() => setError('Network error'))
+            .finally(() => setLoading(false));
+    }, [query]);
+
+    return (
+        <div className="search-page">
+            <h2>Recherche : « {query} »</h2>
+            {error && <div className="error-message">{error}</div>}
+            {loading ? (
+                <div>Chargement...</div>
+            ) : results.length === 0 && !error ? (
+                <p className="search-empty">Aucun résultat.</p>
+            ) : (
+                <ul className="search-results">
+                    {results.map(result => (
+                        <li key={`${result.type}-${result.id}`} className="search-result glass">
+                            <span className="badge badge-tag">{TYPE_LABELS[result.type]}</span>
+                            <a href={result.url} onClick={(e) => { e.preventDefault(); onOpen(result.url); }}>
+                                {result.title}
+                            </a>
+                            {result.snippet && <p dangerouslySetInnerHTML={{ __html: result.snippet }} />}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <style>{`
+                .search-results {
+                    list-style: none;
+                    padding: 0;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 12px;
+                }
+                .search-result {
+                    padding: 15px 20px;
+                    border-radius: 12px;
+                }
+                .search-result a {
+                    margin-left: 8px;
+                    font-weight: 600;
+                    color: var(--text);
+                }
+                .search-result p {
+                    margin: 8px 0 0;
+                    color: var(--text-muted);
+                }
+                .search-result mark {
+                    background: rgba(255, 83, 85, 0.25);
+                    color: inherit;
+                    border-radius: 3px;
+                }
+                .search-empty {
+                    color: var(--text-muted);
+                }
+            `}</style>
+        </div>
+    );
+}
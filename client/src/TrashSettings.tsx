@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { authFetch } from './authFetch';
+
+interface TrashItem {
+    type: string;
+    id: number;
+    label: string;
+    deletedAt: string;
+    purgeAt: string;
+}
+
+interface TrashSettingsProps {
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+    'todos': 'Tâche',
+    'videogames': 'Jeu vidéo',
+    'blog': 'Article',
+    'photos': 'Photo',
+    'gamerankings': 'Classement',
+    'painting-projects': 'Projet de peinture',
+};
+
+export default function TrashSettings({ authToken, onAuthError }: TrashSettingsProps) {
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        authFetch('/api/trash', {}, authToken, onAuthError)
+            .then(async res => {
+                if (res.ok) setItems(await res.json());
+            })
+            .catch(() => setError('Network error'));
+    }, [authToken]);
+
+    const restore = async (item: TrashItem) => {
+        setError('');
+        try {
+            const res = await authFetch(`/api/trash/${item.type}/${item.id}/restore`, { method: 'POST' }, authToken, onAuthError);
+            if (res.ok) {
+                setItems(items.filter(other => other.type !== item.type || other.id !== item.id));
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Restore failed');
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    return (
+        <section className="security-section glass">
+            <h3>Corbeille</h3>
+            {error && <div className="error-message">{error}</div>}
+            {items.length === 0 ? (
+                <p>La corbeille est vide.</p>
+            ) : (
+                <ul className="trash-list">
+                    {items.map(item => (
+                        <li key={`${item.type}-${item.id}`}>
+                            <div>
+                                <strong>{item.label}</strong>
+                                <div className="trash-meta">
+                                    {TYPE_LABELS[item.type] || item.type} — supprimé le {new Date(item.deletedAt).toLocaleDateString('fr-FR')},
+                                    effacé définitivement le {new Date(item.purgeAt).toLocaleDateString('fr-FR')}
+                                </div>
+                            </div>
+                            <button className="auth-toggle" onClick={() => restore(item)}>Restaurer</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
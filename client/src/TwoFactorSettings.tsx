@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { authFetch } from './authFetch';
+
+interface TwoFactorSettingsProps {
+    authToken: string;
+    onAuthError: () => Promise<string | null>;
+}
+
+interface PendingSetup {
+    secret: string;
+    qrCode: string;
+}
+
+export default function TwoFactorSettings({ authToken, onAuthError }: TwoFactorSettingsProps) {
+    const [enabled, setEnabled] = useState(false);
+    const [recoveryCodesLeft, setRecoveryCodesLeft] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const [setup, setSetup] = useState<PendingSetup | null>(null);
+    const [code, setCode] = useState('');
+    const [password, setPassword] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+    const post = (url: string, body: object = {}) =>
+        authFetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(body)
+        }, authToken, onAuthError);
+
+    const fetchStatus = async () => {
+        try {
+            const res = await authFetch('/api/auth/2fa', {}, authToken, onAuthError);
+            if (res.ok) {
+                const data = await res.json();
+                setEnabled(data.enabled);
+                setRecoveryCodesLeft(data.recoveryCodesLeft);
+            } else {
+                setError('Failed to load two-factor status');
+            }
+        } catch (err) {
+            setError('Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchStatus();
+    }, [authToken]);
+
+    const handleFailure = async (res: Response) => {
+        const data = await res.json();
+        setError(data.error || 'Operation failed');
+    };
+
+    const startSetup = async () => {
+        setError('');
+        try {
+            const res = await post('/api/auth/2fa/setup');
+            if (res.ok) {
+                const data = await res.json();
+                const qrCode = await QRCode.toDataURL(data.otpauthUrl, { margin: 1, width: 220 });
+                setSetup({ secret: data.secret, qrCode });
+                setRecoveryCodes([]);
+            } else {
+                await handleFailure(res);
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    const confirmSetup = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        try {
+            const res = await post('/api/auth/2fa/enable', { code });
+            if (res.ok) {
+                const data = await res.json();
+                setRecoveryCodes(data.recoveryCodes);
+                setSetup(null);
+                setCode('');
+                fetchStatus();
+            } else {
+                await handleFailure(res);
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    const regenerateCodes = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        try {
+            const res = await post('/api/auth/2fa/recovery-codes', { code });
+            if (res.ok) {
+                const data = await res.json();
+                setRecoveryCodes(data.recoveryCodes);
+                setCode('');
+                fetchStatus();
+            } else {
+                await handleFailure(res);
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    const disable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        // A code with a dash is a recovery code, six digits is a code from the app
+        const body = code.includes('-') ? { password, recoveryCode: code } : { password, code };
+        try {
+            const res = await post('/api/auth/2fa/disable', body);
+            if (res.ok) {
+                setCode('');
+                setPassword('');
+                setRecoveryCodes([]);
+                fetchStatus();
+            } else {
+                await handleFailure(res);
+            }
+        } catch (err) {
+            setError('Network error');
+        }
+    };
+
+    if (loading) return <div>Chargement...</div>;
+
+    return (
+        <section className="security-section glass">
+            <h3>Double authentification (TOTP)</h3>
+
+            {error && <div className="error-message">{error}</div>}
+
+            <p>
+                Statut : <strong>{enabled ? 'activée' : 'désactivée'}</strong>
+                {enabled && ` — ${recoveryCodesLeft} code(s) de secours restant(s)`}
+            </p>
+
+            {!enabled && !setup && (
+                <button className="add-btn" onClick={startSetup}>Activer la double authentification</button>
+            )}
+
+            {setup && (
+                <form onSubmit={confirmSetup} className="security-form">
+                    <p>Scannez ce QR code avec votre application d'authentification, puis saisissez le code affiché.</p>
+                    <img src={setup.qrCode} alt="QR code de configuration" width={220} height={220} />
+                    <p className="two-factor-secret">Clé manuelle : <code>{setup.secret}</code></p>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        placeholder="Code à 6 chiffres"
+                        aria-label="Code de vérification"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        required
+                    />
+                    <button type="submit" className="add-btn">Confirmer</button>
+                </form>
+            )}
+
+            {recoveryCodes.length > 0 && (
+                <div className="two-factor-recovery">
+                    <p>Conservez ces codes de secours en lieu sûr. Chacun n'est utilisable qu'une fois et ils ne seront plus affichés.</p>
+                    <ul>
+                        {recoveryCodes.map(c => <li key={c}><code>{c}</code></li>)}
+                    </ul>
+                </div>
+            )}
+
+            {enabled && (
+                <>
+                    <form onSubmit={regenerateCodes} className="security-form">
+                        <h4>Régénérer les codes de secours</h4>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            placeholder="Code à 6 chiffres"
+                            aria-label="Code de vérification"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            required
+                        />
+                        <button type="submit" className="add-btn">Régénérer</button>
+                    </form>
+
+                    <form onSubmit={disable} className="security-form">
+                        <h4>Désactiver la double authentification</h4>
+                        <input
+                            type="password"
+                            placeholder="Mot de passe"
+                            aria-label="Mot de passe"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                        />
+                        <input
+                            type="text"
+                            placeholder="Code à 6 chiffres ou code de secours"
+                            aria-label="Code de vérification"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            required
+                        />
+                        <button type="submit" className="delete-btn">Désactiver</button>
+                    </form>
+                </>
+            )}
+        </section>
+    );
+}
@@ -16,6 +16,7 @@ import {
     useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { authFetch } from './authFetch';
 
 interface VideoGame {
     id: number;
@@ -28,8 +29,8 @@ interface VideoGame {
 
 interface VideoGamesProps {
     authToken: string;
-    onAuthError: () => void;
-    userRole: string;
+    onAuthError: () => Promise<string | null>;
+    permissions: string[];
 }
 
 const MONTHS = [
@@ -42,10 +43,10 @@ interface SortableGameProps {
     game: VideoGame;
     onEdit: (game: VideoGame) => void;
     onDelete: (id: number) => void;
-    isAdmin: boolean; // Added isAdmin prop
+    canEdit: boolean;
 }
 
-function SortableGame({ game, onEdit, onDelete, isAdmin }: SortableGameProps) {
+function SortableGame({ game, onEdit, onDelete, canEdit }: SortableGameProps) {
     const {
         attributes,
         listeners,
@@ -53,7 +54,7 @@ function SortableGame({ game, onEdit, onDelete, isAdmin }: SortableGameProps) {
         transform,
         transition,
         isDragging,
-    } = useSortable({ id: game.id, disabled: !isAdmin }); // Disable sorting if not admin
+    } = useSortable({ id: game.id, disabled: !canEdit }); // Disable sorting for read-only viewers
 
     const style = {
         transform: CSS.Transform.toString(transform),
@@ -64,9 +65,9 @@ function SortableGame({ game, onEdit, onDelete, isAdmin }: SortableGameProps) {
 
     return (
         <div ref={setNodeRef} style={style} className="game-card">
-            <div className="game-header" {...(isAdmin ? attributes : {})} {...(isAdmin ? listeners : {})} style={{ cursor: isAdmin ? 'grab' : 'default' }}>
+            <div className="game-header" {...(canEdit ? attributes : {})} {...(canEdit ? listeners : {})} style={{ cursor: canEdit ? 'grab' : 'default' }}>
                 <span className="game-title">{game.title}</span>
-                {isAdmin && (
+                {canEdit && (
                     <div className="game-actions">
                         <button className="action-btn edit-btn" onClick={() => onEdit(game)}>
                             <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -91,7 +92,7 @@ function SortableGame({ game, onEdit, onDelete, isAdmin }: SortableGameProps) {
     );
 }
 
-export default function VideoGames({ authToken, onAuthError, userRole }: VideoGamesProps) {
+export default function VideoGames({ authToken, onAuthError, permissions }: VideoGamesProps) {
     const [games, setGames] = useState<VideoGame[]>([]);
     const [title, setTitle] = useState('');
     const [month, setMonth] = useState('Janvier');
@@ -99,7 +100,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
     const [why, setWhy] = useState('');
     const [editingId, setEditingId] = useState<number | null>(null);
 
-    const isAdmin = userRole === 'admin';
+    const canEdit = permissions.includes('videogames:write');
 
     const sensors = useSensors(
         useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
@@ -114,16 +115,13 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
         };
-        if (authToken) {
-            headers['Authorization'] = `Bearer ${authToken}`;
-        }
-        return fetch(url, {
+        return authFetch(url, {
             ...options,
             headers: {
                 ...options.headers,
                 ...headers,
             },
-        });
+        }, authToken, onAuthError);
     };
 
     const fetchGames = async () => {
@@ -131,13 +129,11 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
         if (res.ok) {
             const data = await res.json();
             setGames(data);
-        } else if (res.status === 401) {
-            onAuthError();
         }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
-        if (!isAdmin) return;
+        if (!canEdit) return;
         e.preventDefault();
         if (!title.trim() || !genre.trim()) return;
 
@@ -160,7 +156,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
     };
 
     const deleteGame = async (id: number) => {
-        if (!isAdmin) return;
+        if (!canEdit) return;
         const res = await fetchWithAuth(`/api/videogames/${id}`, {
             method: 'DELETE',
         });
@@ -170,7 +166,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
     };
 
     const startEdit = (game: VideoGame) => {
-        if (!isAdmin) return;
+        if (!canEdit) return;
         setEditingId(game.id);
         setTitle(game.title);
         setMonth(game.month);
@@ -179,7 +175,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
     };
 
     const handleDragEnd = async (event: DragEndEvent) => {
-        if (!isAdmin) return;
+        if (!canEdit) return;
         const { active, over } = event;
         if (over && active.id !== over.id) {
             const oldIndex = games.findIndex((g) => g.id === active.id);
@@ -197,7 +193,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
 
     return (
         <div className="videogames-section">
-            {isAdmin && (
+            {canEdit && (
                 <form onSubmit={handleSubmit} className="game-form">
                     <input
                         type="text"
@@ -249,7 +245,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
                 <SortableContext items={games.map(g => g.id)} strategy={verticalListSortingStrategy}>
                     <div className="games-container">
                         {games.map((game) => (
-                            <SortableGame key={game.id} game={game} onEdit={startEdit} onDelete={deleteGame} isAdmin={isAdmin} />
+                            <SortableGame key={game.id} game={game} onEdit={startEdit} onDelete={deleteGame} canEdit={canEdit} />
                         ))}
                     </div>
                 </SortableContext>
@@ -257,7 +253,7 @@ export default function VideoGames({ authToken, onAuthError, userRole }: VideoGa
 
             {games.length === 0 && (
                 <p style={{ textAlign: 'center', color: 'var(--text-muted)', marginTop: '2rem' }}>
-                    {isAdmin ? 'Aucune attente enregistrée.' : "Aucune attente de l'administrateur."}
+                    {canEdit ? 'Aucune attente enregistrée.' : "Aucune attente de l'administrateur."}
                 </p>
             )}
         </div>
@@ -0,0 +1,21 @@
+// fetch() with the bearer token. On a 401 the session is refreshed through onAuthError and the
+// request retried once with the new token, so a save made with an expired token is not lost.
+// A 401 is only returned when the session could not be refreshed.
+export async function authFetch(
+    url: string,
+    options: RequestInit,
+    authToken: string,
+    onAuthError: () => Promise<string | null>,
+): Promise<Response> {
+    const withToken = (token: string): RequestInit => ({
+        ...options,
+        headers: { ...(options.headers as Record<string, string>), 'Authorization': `Bearer ${token}` },
+    });
+    // Guests browse without a token: nothing to refresh
+    if (!authToken) return fetch(url, options);
+
+    const res = await fetch(url, withToken(authToken));
+    if (res.status !== 401) return res;
+    const token = await onAuthError();
+    return token ? fetch(url, withToken(token)) : res;
+}
@@ -17,7 +17,6 @@ load_secret() {
 # Load secrets
 load_secret "db_url" "DATABASE_URL"
 load_secret "jwt_secret" "JWT_SECRET"
-load_secret "admin_secret" "ADMIN_SECRET"
 
 # Fix permissions for uploads directory
 echo "Fixing permissions for /app/uploads..."
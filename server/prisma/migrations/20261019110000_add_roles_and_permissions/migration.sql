@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Permission" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "roleId" INTEGER NOT NULL,
+    "permissionId" INTEGER NOT NULL,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("roleId","permissionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_key_key" ON "Permission"("key");
+
+-- Seed permissions
+INSERT INTO "Permission" ("key", "description") VALUES
+    ('todos:manage', 'Gérer les tâches'),
+    ('videogames:write', 'Gérer la wishlist jeux vidéo'),
+    ('blog:write', 'Écrire et modifier les articles du blog'),
+    ('gallery:write', 'Gérer la galerie photo'),
+    ('gamerankings:write', 'Gérer le classement des jeux'),
+    ('painting:write', 'Gérer les projets de peinture'),
+    ('users:manage', 'Gérer les utilisateurs, rôles et invitations');
+
+-- Seed roles
+INSERT INTO "Role" ("name", "description", "updatedAt") VALUES
+    ('admin', 'Accès complet', NOW()),
+    ('editor', 'Rédaction du blog', NOW()),
+    ('curator', 'Gestion de la galerie', NOW()),
+    ('user', 'Utilisateur inscrit', NOW());
+
+-- Keep any role already assigned to a user or an invitation
+INSERT INTO "Role" ("name", "updatedAt")
+SELECT DISTINCT "role", NOW() FROM "User"
+ON CONFLICT ("name") DO NOTHING;
+
+INSERT INTO "Role" ("name", "updatedAt")
+SELECT DISTINCT "role", NOW() FROM "Invitation"
+ON CONFLICT ("name") DO NOTHING;
+
+-- Admins get every permission
+INSERT INTO "RolePermission" ("roleId", "permissionId")
+SELECT r."id", p."id" FROM "Role" r CROSS JOIN "Permission" p WHERE r."name" = 'admin';
+
+INSERT INTO "RolePermission" ("roleId", "permissionId")
+SELECT r."id", p."id" FROM "Role" r JOIN "Permission" p ON p."key" = 'blog:write' WHERE r."name" = 'editor';
+
+INSERT INTO "RolePermission" ("roleId", "permissionId")
+SELECT r."id", p."id" FROM "Role" r JOIN "Permission" p ON p."key" = 'gallery:write' WHERE r."name" = 'curator';
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_role_fkey" FOREIGN KEY ("role") REFERENCES "Role"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invitation" ADD CONSTRAINT "Invitation_role_fkey" FOREIGN KEY ("role") REFERENCES "Role"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "Permission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "totpEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "totpLastUsedStep" INTEGER,
+ADD COLUMN     "totpRecoveryCodes" TEXT[],
+ADD COLUMN     "totpSecret" TEXT;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "avatarFilename" TEXT,
+ADD COLUMN     "bio" TEXT,
+ADD COLUMN     "displayName" TEXT,
+ADD COLUMN     "links" JSONB;
+
+-- AlterTable
+ALTER TABLE "GameRanking" ADD COLUMN     "authorId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "PaintingProject" ADD COLUMN     "authorId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "GameRanking" ADD CONSTRAINT "GameRanking_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaintingProject" ADD CONSTRAINT "PaintingProject_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing rankings and projects were all written by the site admin
+UPDATE "GameRanking" SET "authorId" = (SELECT "id" FROM "User" WHERE "role" = 'admin' ORDER BY "id" LIMIT 1) WHERE "authorId" IS NULL;
+UPDATE "PaintingProject" SET "authorId" = (SELECT "id" FROM "User" WHERE "role" = 'admin' ORDER BY "id" LIMIT 1) WHERE "authorId" IS NULL;
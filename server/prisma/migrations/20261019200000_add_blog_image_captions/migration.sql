@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BlogImage" ADD COLUMN     "alt" TEXT,
+ADD COLUMN     "caption" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "BlogPost" ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'draft';
+
+-- Posts written before this change were public: keep them published
+UPDATE "BlogPost" SET "status" = 'published', "publishedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "BlogPost_status_publishedAt_idx" ON "BlogPost"("status", "publishedAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "BlogPostRevision" (
+    "id" SERIAL NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "blogPostId" INTEGER NOT NULL,
+    "editorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlogPostRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogPostRevision_blogPostId_revision_key" ON "BlogPostRevision"("blogPostId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "BlogPostRevision" ADD CONSTRAINT "BlogPostRevision_blogPostId_fkey" FOREIGN KEY ("blogPostId") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlogPostRevision" ADD CONSTRAINT "BlogPostRevision_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing posts start their history with their current text
+INSERT INTO "BlogPostRevision" ("revision", "title", "content", "blogPostId", "editorId", "createdAt")
+SELECT 1, "title", "content", "id", "authorId", "updatedAt" FROM "BlogPost";
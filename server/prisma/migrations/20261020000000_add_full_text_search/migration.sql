@@ -0,0 +1,21 @@
+-- Accent-insensitive search: unaccent() is only STABLE, index expressions need an IMMUTABLE wrapper
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE OR REPLACE FUNCTION f_unaccent(text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT AS
+$$ SELECT public.unaccent('public.unaccent', $1) $$;
+
+-- CreateIndex
+CREATE INDEX "BlogPost_search_idx" ON "BlogPost" USING GIN ((setweight(to_tsvector('french', f_unaccent(coalesce("title", ''))), 'A') || setweight(to_tsvector('french', f_unaccent(coalesce("content", ''))), 'B') || setweight(to_tsvector('english', f_unaccent(coalesce("title", ''))), 'A') || setweight(to_tsvector('english', f_unaccent(coalesce("content", ''))), 'B')));
+
+-- CreateIndex
+CREATE INDEX "Photo_search_idx" ON "Photo" USING GIN ((setweight(to_tsvector('french', f_unaccent(coalesce("name", ''))), 'A') || setweight(to_tsvector('french', f_unaccent(coalesce("tag", ''))), 'B') || setweight(to_tsvector('english', f_unaccent(coalesce("name", ''))), 'A') || setweight(to_tsvector('english', f_unaccent(coalesce("tag", ''))), 'B')));
+
+-- CreateIndex
+CREATE INDEX "PaintingProject_search_idx" ON "PaintingProject" USING GIN ((setweight(to_tsvector('french', f_unaccent(coalesce("title", ''))), 'A') || setweight(to_tsvector('french', f_unaccent(coalesce("description", ''))), 'B') || setweight(to_tsvector('english', f_unaccent(coalesce("title", ''))), 'A') || setweight(to_tsvector('english', f_unaccent(coalesce("description", ''))), 'B')));
+
+-- CreateIndex
+CREATE INDEX "GameRanking_search_idx" ON "GameRanking" USING GIN ((setweight(to_tsvector('french', f_unaccent(coalesce("gameName", ''))), 'A') || setweight(to_tsvector('french', f_unaccent(coalesce("comment", ''))), 'B') || setweight(to_tsvector('english', f_unaccent(coalesce("gameName", ''))), 'A') || setweight(to_tsvector('english', f_unaccent(coalesce("comment", ''))), 'B')));
+
+-- CreateIndex
+CREATE INDEX "VideoGame_search_idx" ON "VideoGame" USING GIN ((setweight(to_tsvector('french', f_unaccent(coalesce("title", ''))), 'A') || setweight(to_tsvector('french', f_unaccent(coalesce("why", ''))), 'B') || setweight(to_tsvector('english', f_unaccent(coalesce("title", ''))), 'A') || setweight(to_tsvector('english', f_unaccent(coalesce("why", ''))), 'B')));
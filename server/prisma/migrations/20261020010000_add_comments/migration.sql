@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "Comment" (
+    "id" SERIAL NOT NULL,
+    "content" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "blogPostId" INTEGER NOT NULL,
+    "authorId" INTEGER NOT NULL,
+    "parentId" INTEGER,
+    "moderatedById" INTEGER,
+    "moderatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Comment_blogPostId_status_idx" ON "Comment"("blogPostId", "status");
+
+-- CreateIndex
+CREATE INDEX "Comment_status_createdAt_idx" ON "Comment"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_blogPostId_fkey" FOREIGN KEY ("blogPostId") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_moderatedById_fkey" FOREIGN KEY ("moderatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the moderation permission, granted to admins and editors
+INSERT INTO "Permission" ("key", "description") VALUES
+    ('comments:moderate', 'Modérer les commentaires du blog');
+
+INSERT INTO "RolePermission" ("roleId", "permissionId")
+SELECT r."id", p."id" FROM "Role" r JOIN "Permission" p ON p."key" = 'comments:moderate' WHERE r."name" IN ('admin', 'editor');
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "BlogSlugHistory" (
+    "id" SERIAL NOT NULL,
+    "slug" TEXT NOT NULL,
+    "blogPostId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlogSlugHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlogSlugHistory_slug_key" ON "BlogSlugHistory"("slug");
+
+-- CreateIndex
+CREATE INDEX "BlogSlugHistory_blogPostId_idx" ON "BlogSlugHistory"("blogPostId");
+
+-- AddForeignKey
+ALTER TABLE "BlogSlugHistory" ADD CONSTRAINT "BlogSlugHistory_blogPostId_fkey" FOREIGN KEY ("blogPostId") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
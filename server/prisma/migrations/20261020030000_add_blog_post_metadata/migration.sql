@@ -0,0 +1,6 @@
+-- AlterTable
+-- Filled for existing posts by the Markdown backfill at server startup
+ALTER TABLE "BlogPost" ADD COLUMN     "excerpt" TEXT,
+ADD COLUMN     "readingTimeMinutes" INTEGER,
+ADD COLUMN     "toc" JSONB,
+ADD COLUMN     "wordCount" INTEGER;
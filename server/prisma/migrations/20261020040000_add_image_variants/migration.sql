@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ImageVariant" (
+    "id" SERIAL NOT NULL,
+    "size" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "photoId" INTEGER,
+    "paintingImageId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImageVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImageVariant_photoId_idx" ON "ImageVariant"("photoId");
+
+-- CreateIndex
+CREATE INDEX "ImageVariant_paintingImageId_idx" ON "ImageVariant"("paintingImageId");
+
+-- AddForeignKey
+ALTER TABLE "ImageVariant" ADD CONSTRAINT "ImageVariant_photoId_fkey" FOREIGN KEY ("photoId") REFERENCES "Photo"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImageVariant" ADD CONSTRAINT "ImageVariant_paintingImageId_fkey" FOREIGN KEY ("paintingImageId") REFERENCES "PaintingImage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BlogImage" ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "width" INTEGER;
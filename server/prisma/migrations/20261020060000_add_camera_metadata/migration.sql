@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "PaintingImage" ADD COLUMN     "aperture" DOUBLE PRECISION,
+ADD COLUMN     "cameraMake" TEXT,
+ADD COLUMN     "cameraModel" TEXT,
+ADD COLUMN     "exposureTime" DOUBLE PRECISION,
+ADD COLUMN     "focalLength" DOUBLE PRECISION,
+ADD COLUMN     "iso" INTEGER,
+ADD COLUMN     "lensModel" TEXT,
+ADD COLUMN     "takenAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Photo" ADD COLUMN     "aperture" DOUBLE PRECISION,
+ADD COLUMN     "cameraMake" TEXT,
+ADD COLUMN     "cameraModel" TEXT,
+ADD COLUMN     "exposureTime" DOUBLE PRECISION,
+ADD COLUMN     "focalLength" DOUBLE PRECISION,
+ADD COLUMN     "iso" INTEGER,
+ADD COLUMN     "lensModel" TEXT,
+ADD COLUMN     "takenAt" TIMESTAMP(3);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "BlogImage" ADD COLUMN     "dominantColor" TEXT,
+ADD COLUMN     "placeholder" TEXT;
+
+-- AlterTable
+ALTER TABLE "PaintingImage" ADD COLUMN     "dominantColor" TEXT,
+ADD COLUMN     "placeholder" TEXT;
+
+-- AlterTable
+ALTER TABLE "Photo" ADD COLUMN     "dominantColor" TEXT,
+ADD COLUMN     "placeholder" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Photo" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep the current newest-first order
+UPDATE "Photo" SET "position" = ordered."position"
+FROM (SELECT "id", ROW_NUMBER() OVER (ORDER BY "createdAt" DESC) - 1 AS "position" FROM "Photo") AS ordered
+WHERE "Photo"."id" = ordered."id";
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { UPLOADS_DIR } from './utils/uploads';
+import { processImage } from './utils/imagePipeline';
+import { renderPostContent } from './utils/markdown';
+import { prisma } from './prisma';
+
+// One-off: re-encode blog images uploaded before they went through the image pipeline
+// (AVIF, orientation fixed, size clamped, metadata stripped) and re-render the posts using them.
+// Safe to run again, images that already have their dimensions are skipped.
+async function main() {
+    const images = await prisma.blogImage.findMany({ where: { width: null } });
+    const postIds = new Set<number>();
+    let converted = 0;
+    for (const image of images) {
+        const original = path.join(UPLOADS_DIR, image.filename);
+        if (!fs.existsSync(original)) {
+            console.warn(`Missing file for blog image ${image.id}: ${image.filename}`);
+            continue;
+        }
+        try {
+            // The pipeline removes its input: work on a copy so the original stays until the row points to the new file
+            const copy = path.join(UPLOADS_DIR, `temp-backfill-${image.id}${path.extname(image.filename)}`);
+            fs.copyFileSync(original, copy);
+            const { filename, width, height, preview } = await processImage(copy, UPLOADS_DIR, { variants: false });
+            await prisma.blogImage.update({ where: { id: image.id }, data: { filename, width, height, ...preview } });
+            fs.unlinkSync(original);
+            postIds.add(image.blogPostId);
+            converted++;
+        } catch (error) {
+            console.error(`Failed to process blog image ${image.id}:`, error);
+        }
+    }
+    console.log(`Converted ${converted} of ${images.length} blog image(s).`);
+
+    // Inline references point to the files by name in the stored HTML
+    for (const id of postIds) {
+        const post = await prisma.blogPost.findUnique({ where: { id }, include: { images: true } });
+        if (post) {
+            await prisma.blogPost.update({ where: { id }, data: renderPostContent(post.content, post.images) });
+        }
+    }
+    console.log(`Re-rendered ${postIds.size} blog post(s).`);
+}
+
+main()
+    .catch((e) => console.error(e))
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
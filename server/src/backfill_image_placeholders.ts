@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { GALLERY_DIR, PAINTING_DIR, UPLOADS_DIR } from './utils/uploads';
+import { computePlaceholder, ImagePlaceholder } from './utils/imagePipeline';
+import { renderPostContent } from './utils/markdown';
+import { prisma } from './prisma';
+
+// Compute and save the placeholder of each image; missing or unreadable files are reported and skipped
+async function backfill(
+    label: string,
+    dir: string,
+    images: { id: number; filename: string }[],
+    save: (id: number, placeholder: ImagePlaceholder) => Promise<unknown>,
+) {
+    let done = 0;
+    for (const image of images) {
+        const file = path.join(dir, image.filename);
+        if (!fs.existsSync(file)) {
+            console.warn(`Missing file for ${label} ${image.id}: ${image.filename}`);
+            continue;
+        }
+        try {
+            await save(image.id, await computePlaceholder(file));
+            done++;
+        } catch (error) {
+            console.error(`Failed to process ${label} ${image.id}:`, error);
+        }
+    }
+    console.log(`Computed placeholders for ${done} of ${images.length} ${label}(s).`);
+}
+
+// One-off: compute the placeholder and dominant colour of images uploaded before they existed.
+// Safe to run again, images that already have one are skipped.
+async function main() {
+    await backfill('photo', GALLERY_DIR, await prisma.photo.findMany({ where: { placeholder: null } }),
+        (id, data) => prisma.photo.update({ where: { id }, data }));
+    await backfill('painting image', PAINTING_DIR, await prisma.paintingImage.findMany({ where: { placeholder: null } }),
+        (id, data) => prisma.paintingImage.update({ where: { id }, data }));
+    const postIds = new Set<number>();
+    await backfill('blog image', UPLOADS_DIR, await prisma.blogImage.findMany({ where: { placeholder: null } }),
+        async (id, data) => postIds.add((await prisma.blogImage.update({ where: { id }, data })).blogPostId));
+
+    // Images placed in the content carry their placeholder in the stored HTML
+    for (const id of postIds) {
+        const post = await prisma.blogPost.findUnique({ where: { id }, include: { images: true } });
+        if (post) {
+            await prisma.blogPost.update({ where: { id }, data: renderPostContent(post.content, post.images) });
+        }
+    }
+    console.log(`Re-rendered ${postIds.size} blog post(s).`);
+}
+
+main()
+    .catch((e) => console.error(e))
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
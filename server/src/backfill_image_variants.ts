@@ -0,0 +1,37 @@
+import fs from 'fs';
+import path from 'path';
+import { GALLERY_DIR, PAINTING_DIR } from './utils/uploads';
+import { generateVariants } from './utils/imagePipeline';
+import { prisma } from './prisma';
+
+// One-off: generate the responsive variants of images uploaded before the image pipeline.
+// Safe to run again, images that already have variants are skipped.
+async function main() {
+    const photos = await prisma.photo.findMany({ where: { variants: { none: {} } } });
+    for (const photo of photos) {
+        if (!fs.existsSync(path.join(GALLERY_DIR, photo.filename))) {
+            console.warn(`Missing file for photo ${photo.id}: ${photo.filename}`);
+            continue;
+        }
+        const variants = await generateVariants(GALLERY_DIR, photo.filename);
+        await prisma.imageVariant.createMany({ data: variants.map(variant => ({ ...variant, photoId: photo.id })) });
+    }
+    console.log(`Generated variants for ${photos.length} photo(s).`);
+
+    const images = await prisma.paintingImage.findMany({ where: { variants: { none: {} } } });
+    for (const image of images) {
+        if (!fs.existsSync(path.join(PAINTING_DIR, image.filename))) {
+            console.warn(`Missing file for painting image ${image.id}: ${image.filename}`);
+            continue;
+        }
+        const variants = await generateVariants(PAINTING_DIR, image.filename);
+        await prisma.imageVariant.createMany({ data: variants.map(variant => ({ ...variant, paintingImageId: image.id })) });
+    }
+    console.log(`Generated variants for ${images.length} painting image(s).`);
+}
+
+main()
+    .catch((e) => console.error(e))
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -1,10 +1,9 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import sharp from 'sharp';
 import fs from 'fs';
-import path from 'path';
-
-const prisma = new PrismaClient();
+import { recordAudit } from '../utils/audit';
+import { GALLERY_DIR, GALLERY_URL } from '../utils/uploads';
+import { processImage, withSrcset } from '../utils/imagePipeline';
+import { prisma } from '../prisma';
 
 export const uploadPhoto = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -21,32 +20,30 @@ export const uploadPhoto = async (req: Request, res: Response): Promise<void> =>
             return;
         }
 
-        const originalPath = req.file.path;
-        const filename = `${Date.now()}-${Math.round(Math.random() * 1E9)}.avif`;
-        const outputPath = path.join('uploads', 'gallery', filename);
-
-        // Convert to AVIF
-        await sharp(originalPath)
-            .avif()
-            .toFile(outputPath);
-
-        // Get metadata of the converted image
-        const metadata = await sharp(outputPath).metadata();
+        // Full-size AVIF plus its responsive variants; the upload itself is removed, only the shooting details are kept
+        const image = await processImage(req.file.path, GALLERY_DIR, { cameraMetadata: true });
 
-        // Delete the original uploaded file
-        fs.unlinkSync(originalPath);
+        // New photos open the gallery, ahead of the manually ordered ones
+        const first = await prisma.photo.findFirst({ where: { deletedAt: null }, orderBy: { position: 'asc' } });
 
         const photo = await prisma.photo.create({
             data: {
                 name,
                 tag,
-                filename,
-                width: metadata.width,
-                height: metadata.height,
+                position: first ? first.position - 1 : 0,
+                filename: image.filename,
+                width: image.width,
+                height: image.height,
+                ...image.preview,
+                ...image.camera,
+                variants: { create: image.variants },
             },
+            include: { variants: true },
         });
 
-        res.status(201).json(photo);
+        const { variants, ...created } = photo;
+        await recordAudit(req, { action: 'create', entityType: 'Photo', entityId: photo.id, after: created });
+        res.status(201).json(withSrcset(photo, GALLERY_URL));
     } catch (error) {
         console.error('Error uploading photo:', error);
         res.status(500).json({ message: 'Error uploading photo' });
@@ -56,9 +53,11 @@ export const uploadPhoto = async (req: Request, res: Response): Promise<void> =>
 export const getPhotos = async (req: Request, res: Response): Promise<void> => {
     try {
         const photos = await prisma.photo.findMany({
-            orderBy: { createdAt: 'desc' },
+            where: { deletedAt: null },
+            orderBy: [{ position: 'asc' }, { createdAt: 'desc' }],
+            include: { variants: true },
         });
-        res.json(photos);
+        res.json(photos.map(photo => withSrcset(photo, GALLERY_URL)));
     } catch (error) {
         console.error('Error fetching photos:', error);
         res.status(500).json({ message: 'Error fetching photos' });
@@ -68,8 +67,9 @@ export const getPhotos = async (req: Request, res: Response): Promise<void> => {
 export const getPhotoById = async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     try {
-        const photo = await prisma.photo.findUnique({
-            where: { id: parseInt(id as string) },
+        const photo = await prisma.photo.findFirst({
+            where: { id: parseInt(id as string), deletedAt: null },
+            include: { variants: true },
         });
 
         if (!photo) {
@@ -77,9 +77,89 @@ export const getPhotoById = async (req: Request, res: Response): Promise<void> =
             return;
         }
 
-        res.json(photo);
+        res.json(withSrcset(photo, GALLERY_URL));
     } catch (error) {
         console.error('Error fetching photo:', error);
         res.status(500).json({ message: 'Error fetching photo' });
     }
 };
+
+export const updatePhoto = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { name, tag } = req.body;
+    if ((name !== undefined && (typeof name !== 'string' || !name.trim())) || (tag !== undefined && (typeof tag !== 'string' || !tag.trim()))) {
+        res.status(400).json({ message: 'Name and tag cannot be empty' });
+        return;
+    }
+    try {
+        const before = await prisma.photo.findFirst({ where: { id: parseInt(id as string), deletedAt: null } });
+        if (!before) {
+            res.status(404).json({ message: 'Photo not found' });
+            return;
+        }
+
+        const photo = await prisma.photo.update({
+            where: { id: before.id },
+            data: { name: name?.trim(), tag: tag?.trim() },
+            include: { variants: true },
+        });
+        const { variants, ...after } = photo;
+        await recordAudit(req, { action: 'update', entityType: 'Photo', entityId: photo.id, before, after });
+        res.json(withSrcset(photo, GALLERY_URL));
+    } catch (error) {
+        console.error('Error updating photo:', error);
+        res.status(500).json({ message: 'Error updating photo' });
+    }
+};
+
+// Move a photo to the trash. Its files in uploads/gallery are removed by the purge job.
+export const deletePhoto = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    try {
+        const photo = await prisma.photo.findFirst({ where: { id: parseInt(id as string), deletedAt: null } });
+        if (!photo) {
+            res.status(404).json({ message: 'Photo not found' });
+            return;
+        }
+
+        await prisma.photo.update({ where: { id: photo.id }, data: { deletedAt: new Date() } });
+        await recordAudit(req, { action: 'delete', entityType: 'Photo', entityId: photo.id, before: photo });
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting photo:', error);
+        res.status(500).json({ message: 'Error deleting photo' });
+    }
+};
+
+export const reorderPhotos = async (req: Request, res: Response): Promise<void> => {
+    const { ids } = req.body;
+    if (!ids || !Array.isArray(ids)) {
+        res.status(400).json({ message: 'IDs array is required' });
+        return;
+    }
+
+    const photoIds = ids.map(id => parseInt(id as string));
+    if (photoIds.some(isNaN) || new Set(photoIds).size !== photoIds.length) {
+        res.status(400).json({ message: 'IDs must be distinct photo ids' });
+        return;
+    }
+
+    try {
+        // Checked up front so an unknown or trashed id cannot leave a half-applied order
+        const found = await prisma.photo.count({ where: { id: { in: photoIds }, deletedAt: null } });
+        if (found !== photoIds.length) {
+            res.status(400).json({ message: 'Every id must be an active photo' });
+            return;
+        }
+
+        await prisma.$transaction(photoIds.map((id, position) => prisma.photo.update({
+            where: { id, deletedAt: null },
+            data: { position },
+        })));
+        await recordAudit(req, { action: 'reorder', entityType: 'Photo', after: { ids } });
+        res.status(200).json({ message: 'Order updated successfully' });
+    } catch (error) {
+        console.error('Error reordering photos:', error);
+        res.status(500).json({ message: 'Error reordering photos' });
+    }
+};
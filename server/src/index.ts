@@ -1,49 +1,50 @@
-// Utilitaire pour générer un slug unique à partir d'un titre
-function slugify(str: string): string {
-    return str
-        .normalize('NFD')
-        .replace(/[\u0300-\u036f]/g, '') // retire les accents
-        .replace(/[^a-zA-Z0-9\s-]/g, '') // retire caractères spéciaux
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, '-')
-        .replace(/-+/g, '-');
-}
-
 import dotenv from 'dotenv';
 import express, { Request, Response } from 'express';
 import helmet from 'helmet';
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
 import cors from 'cors';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { authenticate, optionalAuthenticate, AuthRequest } from './middleware/auth';
+import { authenticate, optionalAuthenticate, requirePermission, hasPermission, AuthRequest } from './middleware/auth';
+import { PERMISSIONS } from './utils/permissions';
 import { getSecret } from './utils/secrets';
-import { uploadPhoto, getPhotos, getPhotoById } from './controllers/photoController';
+import { uploadPhoto, getPhotos, getPhotoById, updatePhoto, deletePhoto, reorderPhotos } from './controllers/photoController';
 import gameRankingRouter from './routes/gameRankings';
+import authRouter from './routes/auth';
+import twoFactorRouter from './routes/twoFactor';
+import invitationRouter from './routes/invitations';
+import roleRouter from './routes/roles';
+import adminUserRouter from './routes/adminUsers';
+import userRouter from './routes/users';
+import auditRouter from './routes/audit';
+import trashRouter from './routes/trash';
+import searchRouter from './routes/search';
+import commentsRouter from './routes/comments';
+import feedsRouter, { SITE_URL } from './routes/feeds';
+import { recordAudit } from './utils/audit';
+import { startTrashPurge } from './utils/trashPurge';
+import { renderPostContent, findImageReferences, findUnknownImageReferences } from './utils/markdown';
+import { diffLines } from './utils/diff';
+import { publicPostWhere, resolvePublication, PublicationError, startBlogScheduler } from './utils/blogPublication';
+import { slugify, uniqueSlug } from './utils/slug';
+import { UPLOADS_DIR, UPLOADS_ROOT, GALLERY_DIR, PAINTING_DIR, ensureDir, removeUpload, PAINTING_URL } from './utils/uploads';
+import { processImage, withSrcset, ProcessedImage, ImagePlaceholder } from './utils/imagePipeline';
 import { execSync } from 'child_process';
-import sharp from 'sharp';
 
 dotenv.config();
 
-let prisma: PrismaClient;
 const app = express();
 const port = 3000;
 
-let ADMIN_SECRET = process.env.ADMIN_SECRET;
-
-// Initialize secrets and Prisma
+// Initialize secrets and run the Prisma migrations
 async function initSecrets() {
     const jwtSecret = await getSecret('jwt_secret', 'GCP_JWT_SECRET_NAME');
     if (jwtSecret) {
         process.env.JWT_SECRET = jwtSecret;
     }
 
-    ADMIN_SECRET = await getSecret('admin_secret', 'GCP_ADMIN_SECRET_NAME') || ADMIN_SECRET;
-
     const dbUrl = await getSecret('db_url', 'GCP_DB_URL_NAME');
     if (dbUrl) {
         process.env.DATABASE_URL = dbUrl;
@@ -60,35 +61,22 @@ async function initSecrets() {
         // Let's throw to be safe/fail fast.
         throw error;
     }
-
-    // Initialize Prisma Client
-    console.log('Initializing Prisma Client...');
-    try {
-        prisma = new PrismaClient();
-        console.log('Prisma Client initialized.');
-    } catch (e) {
-        console.error('CRITICAL: Failed to initialize Prisma Client:', e);
-        throw e;
-    }
 }
 
+// Behind the nginx proxy: use X-Forwarded-For for req.ip (login throttling, sessions)
+app.set('trust proxy', 1);
+
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
 
 // Multer configuration for blog image uploads
 // Multer configuration for blog image uploads
-const UPLOADS_DIR = process.env.UPLOADS_DIR || path.join(__dirname, '../uploads/blog');
-if (!fs.existsSync(UPLOADS_DIR)) {
-    console.log(`Creating uploads directory at: ${UPLOADS_DIR}`);
-    fs.mkdirSync(UPLOADS_DIR, { recursive: true });
-} else {
-    console.log(`Uploads directory exists at: ${UPLOADS_DIR}`);
-}
+ensureDir(UPLOADS_DIR);
 
 const storage = multer.diskStorage({
-    destination: (_req, _file, cb) => cb(null, UPLOADS_DIR),
-    filename: (_req, file, cb) => cb(null, `${Date.now()}-${file.originalname}`)
+    destination: (_req, _file, cb) => cb(null, UPLOADS_DIR), // Temporarily save here, processBlogImages converts and deletes
+    filename: (_req, file, cb) => cb(null, `temp-${Date.now()}-${file.originalname}`)
 });
 
 const upload = multer({
@@ -106,12 +94,30 @@ const upload = multer({
     }
 });
 
+// Multer writes the raw uploads into publicly served folders before the handler runs: a request
+// rejected before processing must delete them, they still carry their EXIF (GPS included)
+const removeTempFiles = (req: Request) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    files.forEach(file => removeUpload(file.destination, file.filename));
+};
+
+// Blog images are only shown at the article width: a clamped AVIF, without variants
+const processBlogImages = async (files: Express.Multer.File[] = []) => {
+    const images: ({ filename: string; width: number; height: number } & ImagePlaceholder)[] = [];
+    for (const file of files) {
+        try {
+            const { filename, width, height, preview } = await processImage(file.path, UPLOADS_DIR, { variants: false });
+            images.push({ filename, width, height, ...preview });
+        } catch (err) {
+            // Continue with the other images; the temp file is already cleaned up
+            console.error(`Failed to process image ${file.originalname}:`, err);
+        }
+    }
+    return images;
+};
+
 // Multer config for Gallery
-const GALLERY_DIR = path.join(__dirname, '../uploads/gallery');
-if (!fs.existsSync(GALLERY_DIR)) {
-    console.log(`Creating gallery directory at: ${GALLERY_DIR}`);
-    fs.mkdirSync(GALLERY_DIR, { recursive: true });
-}
+ensureDir(GALLERY_DIR);
 
 const galleryStorage = multer.diskStorage({
     destination: (_req, _file, cb) => cb(null, GALLERY_DIR), // Temporarily save here, controller converts and deletes
@@ -134,11 +140,7 @@ const galleryUpload = multer({
 });
 
 // Multer config for Painting Projects
-const PAINTING_DIR = path.join(__dirname, '../uploads/painting');
-if (!fs.existsSync(PAINTING_DIR)) {
-    console.log(`Creating painting directory at: ${PAINTING_DIR}`);
-    fs.mkdirSync(PAINTING_DIR, { recursive: true });
-}
+ensureDir(PAINTING_DIR);
 
 // Storage for painting images - temporary save before processing
 const paintingStorage = multer.diskStorage({
@@ -161,90 +163,31 @@ const paintingUpload = multer({
     }
 });
 
-// Helper to process and save image as AVIF
-const processPaintingImage = async (filePath: string): Promise<string> => {
-    const filename = `painting-${Date.now()}-${Math.round(Math.random() * 1E9)}.avif`;
-    const outputPath = path.join(PAINTING_DIR, filename);
-
-    await sharp(filePath)
-        .avif({ quality: 80 })
-        .toFile(outputPath);
+// Save an uploaded painting image as AVIF with its responsive variants and shooting details
+const processPaintingImage = (filePath: string) => processImage(filePath, PAINTING_DIR, { prefix: 'painting-', cameraMetadata: true });
 
-    // Delete original temp file
-    if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-    }
+const paintingImagesInclude = { images: { include: { variants: true } } };
 
-    return filename;
-};
+// Project as sent to clients: each image with its srcset instead of the raw variants
+const toPaintingResponse = <T extends { images: Prisma.PaintingImageGetPayload<{ include: { variants: true } }>[] }>(project: T) => ({
+    ...project,
+    images: project.images.map(image => withSrcset(image, PAINTING_URL)),
+});
 
 
 // Serve uploaded files statically
-app.use('/uploads', express.static(path.dirname(UPLOADS_DIR)));
+app.use('/uploads', express.static(UPLOADS_ROOT));
 
 // Auth Endpoints
-app.post('/api/auth/register', async (req: Request, res: Response) => {
-    const { username, password, secretCode } = req.body;
-    if (!username || !password) {
-        return res.status(400).json({ error: 'Username and password are required' });
-    }
-    try {
-        const hashedPassword = await bcrypt.hash(password, 10);
-        console.log('Registration attempt:', { username, secretCodeProvided: secretCode });
-
-        const role = secretCode === ADMIN_SECRET ? 'admin' : 'user';
-        console.log('Assigned role:', role);
-
-        const user = await prisma.user.create({
-            data: { username, password: hashedPassword, role },
-        });
-        const secret = process.env.JWT_SECRET;
-        if (!secret) throw new Error('JWT_SECRET is not defined');
-        const token = jwt.sign({ userId: user.id, role: user.role }, secret, { expiresIn: '24h' });
-        res.json({ token, user: { id: user.id, username: user.username, role: user.role } });
-    } catch (error) {
-        console.error('Register error:', error);
-        res.status(400).json({ error: 'Username already exists or invalid data' });
-    }
-});
-
-app.post('/api/auth/login', async (req: Request, res: Response) => {
-    const { username, password } = req.body;
-    if (!username || !password) {
-        return res.status(400).json({ error: 'Username and password are required' });
-    }
-    try {
-        const user = await prisma.user.findUnique({ where: { username } });
-        if (!user || !(await bcrypt.compare(password, user.password))) {
-            return res.status(401).json({ error: 'Invalid username or password' });
-        }
-        const secret = process.env.JWT_SECRET;
-        if (!secret) throw new Error('JWT_SECRET is not defined');
-        const token = jwt.sign({ userId: user.id, role: user.role }, secret, { expiresIn: '24h' });
-        res.json({ token, user: { id: user.id, username: user.username, role: user.role } });
-    } catch (error) {
-        console.error('Login error:', error);
-        res.status(500).json({ error: 'Internal server error' });
-    }
-});
-
-// Helper to check for admin role
-const isAdmin = (req: AuthRequest, res: Response, next: express.NextFunction) => {
-    if (req.userRole !== 'admin') {
-        return res.status(403).json({ error: 'Forbidden: Admin access required' });
-    }
-    next();
-};
+app.use('/api/auth/2fa', twoFactorRouter);
+app.use('/api/auth', authRouter);
 
 // Apply auth to GET routes, strict auth to others
 // Get all todos sorted by position
-app.get('/api/todos', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.get('/api/todos', authenticate, requirePermission(PERMISSIONS.TODOS_MANAGE), async (req: AuthRequest, res: Response) => {
     try {
-        // If user, get only admin's todos. If admin, get their own.
-        const targetUserId = req.userRole === 'admin' ? req.userId : (await prisma.user.findFirst({ where: { role: 'admin' } }))?.id;
-
         const todos = await prisma.todo.findMany({
-            where: { userId: targetUserId },
+            where: { userId: req.userId, deletedAt: null },
             orderBy: { position: 'asc' },
         });
         res.json(todos);
@@ -255,14 +198,14 @@ app.get('/api/todos', authenticate, isAdmin, async (req: AuthRequest, res: Respo
 });
 
 // Create a todo
-app.post('/api/todos', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.post('/api/todos', authenticate, requirePermission(PERMISSIONS.TODOS_MANAGE), async (req: AuthRequest, res: Response) => {
     const { description } = req.body;
     if (!description) {
         return res.status(400).json({ error: 'Description is required' });
     }
     try {
         const firstTodo = await prisma.todo.findFirst({
-            where: { userId: req.userId },
+            where: { userId: req.userId, deletedAt: null },
             orderBy: { position: 'asc' },
         });
         const position = firstTodo ? firstTodo.position - 1 : 0;
@@ -270,6 +213,7 @@ app.post('/api/todos', authenticate, isAdmin, async (req: AuthRequest, res: Resp
         const todo = await prisma.todo.create({
             data: { description, position, userId: req.userId! },
         });
+        await recordAudit(req, { action: 'create', entityType: 'Todo', entityId: todo.id, after: todo });
         res.json(todo);
     } catch (error) {
         console.error('Create error:', error);
@@ -278,15 +222,17 @@ app.post('/api/todos', authenticate, isAdmin, async (req: AuthRequest, res: Resp
 });
 
 // Update a todo
-app.put('/api/todos/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.put('/api/todos/:id', authenticate, requirePermission(PERMISSIONS.TODOS_MANAGE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { description, completed } = req.body;
 
     try {
+        const before = await prisma.todo.findFirst({ where: { id: parseInt(id as string), userId: req.userId, deletedAt: null } });
         const todo = await prisma.todo.update({
-            where: { id: parseInt(id as string), userId: req.userId },
+            where: { id: parseInt(id as string), userId: req.userId, deletedAt: null },
             data: { description, completed },
         });
+        await recordAudit(req, { action: 'update', entityType: 'Todo', entityId: todo.id, before, after: todo });
         res.json(todo);
     } catch (error) {
         console.error('Update error:', error);
@@ -295,7 +241,7 @@ app.put('/api/todos/:id', authenticate, isAdmin, async (req: AuthRequest, res: R
 });
 
 // Reorder todos
-app.post('/api/todos/reorder', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.post('/api/todos/reorder', authenticate, requirePermission(PERMISSIONS.TODOS_MANAGE), async (req: AuthRequest, res: Response) => {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids)) {
         return res.status(400).json({ error: 'IDs array is required' });
@@ -308,6 +254,7 @@ app.post('/api/todos/reorder', authenticate, isAdmin, async (req: AuthRequest, r
                 data: { position: i },
             });
         }
+        await recordAudit(req, { action: 'reorder', entityType: 'Todo', after: { ids } });
         res.status(200).json({ message: 'Order updated successfully' });
     } catch (error) {
         console.error('Reorder error:', error);
@@ -315,13 +262,16 @@ app.post('/api/todos/reorder', authenticate, isAdmin, async (req: AuthRequest, r
     }
 });
 
-// Delete a todo
-app.delete('/api/todos/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Move a todo to the trash
+app.delete('/api/todos/:id', authenticate, requirePermission(PERMISSIONS.TODOS_MANAGE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        await prisma.todo.delete({
-            where: { id: parseInt(id as string), userId: req.userId },
+        const before = await prisma.todo.findFirst({ where: { id: parseInt(id as string), userId: req.userId, deletedAt: null } });
+        const todo = await prisma.todo.update({
+            where: { id: parseInt(id as string), userId: req.userId, deletedAt: null },
+            data: { deletedAt: new Date() },
         });
+        await recordAudit(req, { action: 'delete', entityType: 'Todo', entityId: todo.id, before });
         res.status(204).send();
     } catch (error) {
         console.error('Delete error:', error);
@@ -332,20 +282,23 @@ app.delete('/api/todos/:id', authenticate, isAdmin, async (req: AuthRequest, res
 // Video Games Endpoints
 app.get('/api/videogames', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     try {
-        // If authenticated as admin, return their own games (for management)
-        if (req.userRole === 'admin' && req.userId) {
+        // If allowed to manage the wishlist, return their own games (for management)
+        if (hasPermission(req, PERMISSIONS.VIDEOGAMES_WRITE) && req.userId) {
             const games = await prisma.videoGame.findMany({
-                where: { userId: req.userId },
+                where: { userId: req.userId, deletedAt: null },
                 orderBy: { position: 'asc' },
             });
             return res.json(games);
         }
 
-        // For guests or non-admin users, return games from ALL admins
+        // For guests and other users, return games from everyone allowed to manage the wishlist
         const games = await prisma.videoGame.findMany({
             where: {
+                deletedAt: null,
                 user: {
-                    role: 'admin'
+                    roleRef: {
+                        permissions: { some: { permission: { key: PERMISSIONS.VIDEOGAMES_WRITE } } }
+                    }
                 }
             },
             orderBy: { position: 'asc' },
@@ -357,14 +310,14 @@ app.get('/api/videogames', optionalAuthenticate, async (req: AuthRequest, res: R
     }
 });
 
-app.post('/api/videogames', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.post('/api/videogames', authenticate, requirePermission(PERMISSIONS.VIDEOGAMES_WRITE), async (req: AuthRequest, res: Response) => {
     const { title, month, genre, why } = req.body;
     if (!title || !month || !genre) {
         return res.status(400).json({ error: 'Title, month and genre are required' });
     }
     try {
         const lastGame = await prisma.videoGame.findFirst({
-            where: { userId: req.userId },
+            where: { userId: req.userId, deletedAt: null },
             orderBy: { position: 'desc' },
         });
         const position = lastGame ? lastGame.position + 1 : 0;
@@ -372,6 +325,7 @@ app.post('/api/videogames', authenticate, isAdmin, async (req: AuthRequest, res:
         const game = await prisma.videoGame.create({
             data: { title, month, genre, why: why || '', position, userId: req.userId! },
         });
+        await recordAudit(req, { action: 'create', entityType: 'VideoGame', entityId: game.id, after: game });
         res.json(game);
     } catch (error) {
         console.error('Create game error:', error);
@@ -379,7 +333,7 @@ app.post('/api/videogames', authenticate, isAdmin, async (req: AuthRequest, res:
     }
 });
 
-app.post('/api/videogames/reorder', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.post('/api/videogames/reorder', authenticate, requirePermission(PERMISSIONS.VIDEOGAMES_WRITE), async (req: AuthRequest, res: Response) => {
     const { ids } = req.body;
     if (!ids || !Array.isArray(ids)) {
         return res.status(400).json({ error: 'IDs array is required' });
@@ -392,6 +346,7 @@ app.post('/api/videogames/reorder', authenticate, isAdmin, async (req: AuthReque
                 data: { position: i },
             });
         }
+        await recordAudit(req, { action: 'reorder', entityType: 'VideoGame', after: { ids } });
         res.status(200).json({ message: 'Order updated successfully' });
     } catch (error) {
         console.error('Reorder games error:', error);
@@ -399,14 +354,16 @@ app.post('/api/videogames/reorder', authenticate, isAdmin, async (req: AuthReque
     }
 });
 
-app.put('/api/videogames/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.put('/api/videogames/:id', authenticate, requirePermission(PERMISSIONS.VIDEOGAMES_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { title, month, genre, why } = req.body;
     try {
+        const before = await prisma.videoGame.findFirst({ where: { id: parseInt(id as string), userId: req.userId, deletedAt: null } });
         const game = await prisma.videoGame.update({
-            where: { id: parseInt(id as string), userId: req.userId },
+            where: { id: parseInt(id as string), userId: req.userId, deletedAt: null },
             data: { title, month, genre, why },
         });
+        await recordAudit(req, { action: 'update', entityType: 'VideoGame', entityId: game.id, before, after: game });
         res.json(game);
     } catch (error) {
         console.error('Update game error:', error);
@@ -414,12 +371,15 @@ app.put('/api/videogames/:id', authenticate, isAdmin, async (req: AuthRequest, r
     }
 });
 
-app.delete('/api/videogames/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+app.delete('/api/videogames/:id', authenticate, requirePermission(PERMISSIONS.VIDEOGAMES_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        await prisma.videoGame.delete({
-            where: { id: parseInt(id as string), userId: req.userId },
+        const before = await prisma.videoGame.findFirst({ where: { id: parseInt(id as string), userId: req.userId, deletedAt: null } });
+        const game = await prisma.videoGame.update({
+            where: { id: parseInt(id as string), userId: req.userId, deletedAt: null },
+            data: { deletedAt: new Date() },
         });
+        await recordAudit(req, { action: 'delete', entityType: 'VideoGame', entityId: game.id, before });
         res.status(204).send();
     } catch (error) {
         console.error('Delete game error:', error);
@@ -428,6 +388,62 @@ app.delete('/api/videogames/:id', authenticate, isAdmin, async (req: AuthRequest
 });
 
 // Blog Endpoints
+// Public author fields shown with each post
+const blogAuthorSelect = { username: true, displayName: true, avatarFilename: true };
+const blogTagSelect = { name: true, slug: true };
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+// Tags arrive as an array (JSON or repeated form fields) or a comma-separated string; returns null when invalid
+const parseTags = (input: unknown) => {
+    const names: unknown[] = Array.isArray(input) ? input : String(input).split(',');
+    const tags = new Map<string, string>();
+    for (const raw of names) {
+        if (typeof raw !== 'string') return null;
+        const name = raw.trim();
+        if (!name) continue;
+        const slug = slugify(name);
+        if (!slug || name.length > MAX_TAG_LENGTH) return null;
+        if (!tags.has(slug)) tags.set(slug, name);
+    }
+    if (tags.size > MAX_TAGS) return null;
+    return [...tags].map(([slug, name]) => ({ where: { slug }, create: { slug, name } }));
+};
+
+const sendInvalidTags = (res: Response) =>
+    res.status(400).json({ error: `Up to ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters are allowed` });
+
+// Re-render a post whose images changed, so inline references pick up files and captions
+const refreshPostHtml = async (postId: number) => {
+    const post = await prisma.blogPost.findUnique({ where: { id: postId }, include: { images: true } });
+    if (post) {
+        await prisma.blogPost.update({ where: { id: postId }, data: renderPostContent(post.content, post.images) });
+    }
+};
+
+// Editors also get drafts and scheduled posts, to manage and preview them
+const visiblePostWhere = (req: AuthRequest): Prisma.BlogPostWhereInput =>
+    hasPermission(req, PERMISSIONS.BLOG_WRITE) ? { deletedAt: null } : publicPostWhere();
+
+// Drafts (no date) first for editors, then newest publication first
+const blogPostOrder: Prisma.BlogPostOrderByWithRelationInput[] = [
+    { publishedAt: { sort: 'desc', nulls: 'first' } },
+    { createdAt: 'desc' },
+];
+
+// Snapshot the post text as its next revision. Run in the transaction that updated the post:
+// the updated row stays locked until commit, so concurrent edits cannot pick the same number.
+const recordRevision = async (tx: Prisma.TransactionClient, post: { id: number; title: string; content: string }, editorId?: number) => {
+    const last = await tx.blogPostRevision.findFirst({ where: { blogPostId: post.id }, orderBy: { revision: 'desc' } });
+    return tx.blogPostRevision.create({
+        data: { blogPostId: post.id, revision: (last?.revision ?? 0) + 1, title: post.title, content: post.content, editorId },
+    });
+};
+
+const sendUnknownImageReferences = (res: Response, unknownImageIds: number[]) =>
+    res.status(400).json({ error: `Content references images that do not belong to this post: ${unknownImageIds.join(', ')}`, unknownImageIds });
+
 // Get all blog posts with pagination
 app.get('/api/blog', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     try {
@@ -435,14 +451,19 @@ app.get('/api/blog', optionalAuthenticate, async (req: AuthRequest, res: Respons
         const limit = parseInt(req.query.limit as string) || 5;
         const skip = (page - 1) * limit;
 
+        const { tag } = req.query;
+        const where: Prisma.BlogPostWhereInput = tag
+            ? { ...visiblePostWhere(req), tags: { some: { slug: String(tag) } } }
+            : visiblePostWhere(req);
         const [posts, total] = await Promise.all([
             prisma.blogPost.findMany({
+                where,
                 skip,
                 take: limit,
-                orderBy: { createdAt: 'desc' },
-                include: { images: true, author: { select: { username: true } } }
+                orderBy: blogPostOrder,
+                include: { images: true, tags: { select: blogTagSelect }, author: { select: blogAuthorSelect } }
             }),
-            prisma.blogPost.count()
+            prisma.blogPost.count({ where })
         ]);
 
         res.json({
@@ -460,15 +481,43 @@ app.get('/api/blog', optionalAuthenticate, async (req: AuthRequest, res: Respons
     }
 });
 
+// List tags with their number of visible posts
+app.get('/api/blog/tags', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
+    try {
+        const tags = await prisma.blogTag.findMany({
+            select: { ...blogTagSelect, _count: { select: { posts: { where: visiblePostWhere(req) } } } },
+            orderBy: { name: 'asc' },
+        });
+        res.json(tags
+            .filter(tag => tag._count.posts > 0)
+            .map(({ _count, ...tag }) => ({ ...tag, postCount: _count.posts })));
+    } catch (error) {
+        console.error('Fetch blog tags error:', error);
+        res.status(500).json({ error: 'Failed to fetch blog tags' });
+    }
+});
+
 // Get single blog post by slug
 app.get('/api/blog/slug/:slug', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     const { slug } = req.params;
     try {
-        const post = await prisma.blogPost.findUnique({
-            where: { slug: String(slug) },
-            include: { images: true, author: { select: { username: true } } }
+        const post = await prisma.blogPost.findFirst({
+            where: { slug: String(slug), ...visiblePostWhere(req) },
+            include: { images: true, tags: { select: blogTagSelect }, author: { select: blogAuthorSelect } }
         });
         if (!post) {
+            // Former slug: tell the client where the post lives now
+            const former = await prisma.blogSlugHistory.findUnique({
+                where: { slug: String(slug) },
+                select: { blogPost: { select: { slug: true } } }
+            });
+            const current = former && await prisma.blogPost.findFirst({
+                where: { slug: former.blogPost.slug, ...visiblePostWhere(req) },
+                select: { slug: true }
+            });
+            if (current) {
+                return res.json({ redirect: { slug: current.slug } });
+            }
             return res.status(404).json({ error: 'Blog post not found' });
         }
         res.json(post);
@@ -482,9 +531,9 @@ app.get('/api/blog/slug/:slug', optionalAuthenticate, async (req: AuthRequest, r
 app.get('/api/blog/:id', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        const post = await prisma.blogPost.findUnique({
-            where: { id: parseInt(String(id)) },
-            include: { images: true, author: { select: { username: true } } }
+        const post = await prisma.blogPost.findFirst({
+            where: { id: parseInt(String(id)), ...visiblePostWhere(req) },
+            include: { images: true, tags: { select: blogTagSelect }, author: { select: blogAuthorSelect } }
         });
         if (!post) {
             return res.status(404).json({ error: 'Blog post not found' });
@@ -496,45 +545,59 @@ app.get('/api/blog/:id', optionalAuthenticate, async (req: AuthRequest, res: Res
     }
 });
 
-// Create blog post (admin only)
-app.post('/api/blog', authenticate, isAdmin, upload.array('images', 10), async (req: AuthRequest, res: Response) => {
-    const { title, content } = req.body;
+// Create blog post (requires blog:write)
+app.post('/api/blog', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), upload.array('images', 10), async (req: AuthRequest, res: Response) => {
+    const { title, content, status, publishedAt, tags } = req.body;
     if (!title || !content) {
+        removeTempFiles(req);
         return res.status(400).json({ error: 'Title and content are required' });
     }
+    const tagInput = tags !== undefined ? parseTags(tags) : [];
+    if (!tagInput) {
+        removeTempFiles(req);
+        return sendInvalidTags(res);
+    }
+    // Images uploaded with the post have no id yet, so nothing can be referenced before creation
+    const unknownImageIds = findUnknownImageReferences(content, []);
+    if (unknownImageIds.length > 0) {
+        removeTempFiles(req);
+        return sendUnknownImageReferences(res, unknownImageIds);
+    }
     try {
+        // New posts stay private until explicitly published or scheduled
+        const publication = resolvePublication(status || 'draft', publishedAt);
         const files = req.files as Express.Multer.File[];
         console.log('Creating blog post:', { title, userId: req.userId, filesCount: files?.length });
 
-        let baseSlug = slugify(title);
-        if (!baseSlug) {
-            // Fallback si le titre ne contient que des caractères spéciaux
-            baseSlug = `article-${Date.now()}`;
-        }
-        let slug = baseSlug;
-        let suffix = 1;
-        // Vérifie l'unicité du slug
-        while (await prisma.blogPost.findUnique({ where: { slug } })) {
-            slug = `${baseSlug}-${suffix++}`;
-        }
-
+        const slug = await uniqueSlug(title);
         console.log('Generated slug:', slug);
+        const images = await processBlogImages(files);
 
         const post = await prisma.blogPost.create({
             data: {
                 title,
                 slug,
                 content,
+                ...renderPostContent(content),
+                ...publication,
                 authorId: req.userId!,
-                images: {
-                    create: files?.map(file => ({ filename: file.filename })) || []
-                }
+                images: { create: images },
+                revisions: {
+                    create: { revision: 1, title, content, editorId: req.userId }
+                },
+                tags: { connectOrCreate: tagInput }
             },
-            include: { images: true }
+            include: { images: true, tags: { select: blogTagSelect } }
         });
         console.log('Blog post created successfully:', post.id);
+        await recordAudit(req, { action: 'create', entityType: 'BlogPost', entityId: post.id, after: post });
         res.json(post);
     } catch (error) {
+        // Files already processed are gone; this removes the ones never reached
+        removeTempFiles(req);
+        if (error instanceof PublicationError) {
+            return res.status(400).json({ error: error.message });
+        }
         console.error('Create blog post error FULL OBJECT:', JSON.stringify(error, null, 2));
         console.error('Create blog post error stack:', error instanceof Error ? error.stack : 'No stack');
 
@@ -546,54 +609,176 @@ app.post('/api/blog', authenticate, isAdmin, upload.array('images', 10), async (
     }
 });
 
-// Update blog post (admin only)
-app.put('/api/blog/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Update blog post (requires blog:write)
+app.put('/api/blog/:id', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
-    const { title, content, slug, ...rest } = req.body;
-    if (slug !== undefined) {
-        return res.status(400).json({ error: 'Slug cannot be modified' });
+    const { title, content, slug, status, publishedAt, tags, ...rest } = req.body;
+    if (slug !== undefined && (typeof slug !== 'string' || !slugify(slug))) {
+        return res.status(400).json({ error: 'Invalid slug' });
+    }
+    const tagInput = tags !== undefined ? parseTags(tags) : undefined;
+    if (tagInput === null) {
+        return sendInvalidTags(res);
     }
     try {
-        const post = await prisma.blogPost.update({
-            where: { id: parseInt(String(id)) },
-            data: { title, content },
-            include: { images: true }
+        const before = await prisma.blogPost.findFirst({
+            where: { id: parseInt(String(id)), deletedAt: null },
+            include: { images: true, tags: { select: blogTagSelect } }
         });
+        if (!before) {
+            return res.status(404).json({ error: 'Blog post not found' });
+        }
+        if (content !== undefined) {
+            const unknownImageIds = findUnknownImageReferences(content, before.images);
+            if (unknownImageIds.length > 0) {
+                return sendUnknownImageReferences(res, unknownImageIds);
+            }
+        }
+        const publication = status !== undefined || publishedAt !== undefined
+            ? resolvePublication(status ?? before.status, publishedAt, before.publishedAt)
+            : {};
+        // The previous slug keeps redirecting; a post may take back one of its own former slugs
+        const nextSlug = slug !== undefined ? await uniqueSlug(slug, before.id) : before.slug;
+        const newSlug = nextSlug !== before.slug ? nextSlug : undefined;
+        const post = await prisma.$transaction(async (tx) => {
+            const updated = await tx.blogPost.update({
+                where: { id: before.id },
+                data: {
+                    title,
+                    slug: newSlug,
+                    content,
+                    ...(content !== undefined ? renderPostContent(content, before.images) : {}),
+                    ...publication,
+                    tags: tagInput ? { set: [], connectOrCreate: tagInput } : undefined,
+                },
+                include: { images: true, tags: { select: blogTagSelect } }
+            });
+            if (newSlug) {
+                await tx.blogSlugHistory.deleteMany({ where: { slug: newSlug, blogPostId: before.id } });
+                await tx.blogSlugHistory.create({ data: { slug: before.slug, blogPostId: before.id } });
+            }
+            if (updated.title !== before.title || updated.content !== before.content) {
+                await recordRevision(tx, updated, req.userId);
+            }
+            return updated;
+        });
+        await recordAudit(req, { action: 'update', entityType: 'BlogPost', entityId: post.id, before, after: post });
         res.json(post);
     } catch (error) {
+        if (error instanceof PublicationError) {
+            return res.status(400).json({ error: error.message });
+        }
         console.error('Update blog post error:', error);
-        res.status(404).json({ error: 'Blog post not found' });
+        res.status(500).json({ error: 'Failed to update blog post' });
     }
 });
 
-// Delete blog post (admin only)
-app.delete('/api/blog/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// List revisions of a post, newest first, with a line diff of the content when ?from=&to= revisions are given (requires blog:write)
+app.get('/api/blog/:id/revisions', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
+    const { from, to } = req.query;
+    if ((from === undefined) !== (to === undefined)) {
+        return res.status(400).json({ error: 'Both from and to revisions are required for a diff' });
+    }
     try {
-        // Get images to delete from disk
-        const post = await prisma.blogPost.findUnique({
-            where: { id: parseInt(String(id)) },
-            include: { images: true }
-        });
+        const post = await prisma.blogPost.findFirst({ where: { id: parseInt(String(id)), deletedAt: null }, select: { id: true } });
         if (!post) {
             return res.status(404).json({ error: 'Blog post not found' });
         }
 
-        // Delete images from disk
-        for (const image of post.images) {
-            // Path traversal protection
-            if (image.filename.includes('..') || path.isAbsolute(image.filename) || image.filename.includes('/') || image.filename.includes('\\')) {
-                console.warn(`Tentative de path traversal détectée pour le fichier: ${image.filename}`);
-                continue;
-            }
-            const filePath = path.join(UPLOADS_DIR, image.filename);
-            if (fs.existsSync(filePath)) {
-                fs.unlinkSync(filePath);
-            }
+        const revisions = await prisma.blogPostRevision.findMany({
+            where: { blogPostId: post.id },
+            orderBy: { revision: 'desc' },
+            select: { id: true, revision: true, title: true, createdAt: true, editor: { select: { username: true, displayName: true } } },
+        });
+        if (from === undefined) {
+            return res.json({ revisions });
+        }
+
+        const [fromRevision, toRevision] = await Promise.all([from, to].map(revision =>
+            prisma.blogPostRevision.findUnique({
+                where: { blogPostId_revision: { blogPostId: post.id, revision: parseInt(String(revision)) } },
+            })
+        ));
+        if (!fromRevision || !toRevision) {
+            return res.status(404).json({ error: 'Revision not found' });
+        }
+
+        res.json({
+            revisions,
+            diff: {
+                from: fromRevision.revision,
+                to: toRevision.revision,
+                title: fromRevision.title !== toRevision.title ? { before: fromRevision.title, after: toRevision.title } : null,
+                lines: diffLines(fromRevision.content, toRevision.content),
+            },
+        });
+    } catch (error) {
+        console.error('Fetch blog revisions error:', error);
+        res.status(500).json({ error: 'Failed to fetch revisions' });
+    }
+});
+
+// Roll a post back to an earlier revision; the rollback is itself recorded as a new revision (requires blog:write)
+app.post('/api/blog/:id/revisions/:rev/restore', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), async (req: AuthRequest, res: Response) => {
+    const { id, rev } = req.params;
+    try {
+        const before = await prisma.blogPost.findFirst({ where: { id: parseInt(String(id)), deletedAt: null }, include: { images: true } });
+        if (!before) {
+            return res.status(404).json({ error: 'Blog post not found' });
+        }
+        const revision = await prisma.blogPostRevision.findUnique({
+            where: { blogPostId_revision: { blogPostId: before.id, revision: parseInt(String(rev)) } },
+        });
+        if (!revision) {
+            return res.status(404).json({ error: 'Revision not found' });
+        }
+        // Images removed since that revision can't be placed anymore
+        const unknownImageIds = findUnknownImageReferences(revision.content, before.images);
+        if (unknownImageIds.length > 0) {
+            return sendUnknownImageReferences(res, unknownImageIds);
         }
 
-        // Delete post (cascade deletes images in DB)
-        await prisma.blogPost.delete({ where: { id: parseInt(String(id)) } });
+        const { post, created } = await prisma.$transaction(async (tx) => {
+            const updated = await tx.blogPost.update({
+                where: { id: before.id },
+                data: {
+                    title: revision.title,
+                    content: revision.content,
+                    ...renderPostContent(revision.content, before.images),
+                },
+                include: { images: true }
+            });
+            return { post: updated, created: await recordRevision(tx, updated, req.userId) };
+        });
+        await recordAudit(req, {
+            action: 'restore',
+            entityType: 'BlogPost',
+            entityId: post.id,
+            before: { title: before.title, content: before.content },
+            after: { title: post.title, content: post.content, restoredRevision: revision.revision, revision: created.revision },
+        });
+        res.json(post);
+    } catch (error) {
+        console.error('Restore blog revision error:', error);
+        res.status(500).json({ error: 'Failed to restore revision' });
+    }
+});
+
+// Move blog post to the trash (requires blog:write). Images stay on disk until the purge job.
+app.delete('/api/blog/:id', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const post = await prisma.blogPost.findFirst({
+            where: { id: parseInt(String(id)), deletedAt: null },
+            include: { images: true }
+        });
+        if (!post) {
+            return res.status(404).json({ error: 'Blog post not found' });
+        }
+
+        await prisma.blogPost.update({ where: { id: post.id }, data: { deletedAt: new Date() } });
+        await recordAudit(req, { action: 'delete', entityType: 'BlogPost', entityId: post.id, before: post });
         res.status(204).send();
     } catch (error) {
         console.error('Delete blog post error:', error);
@@ -601,8 +786,8 @@ app.delete('/api/blog/:id', authenticate, isAdmin, async (req: AuthRequest, res:
     }
 });
 
-// Upload images to existing blog post (admin only)
-app.post('/api/blog/:id/images', authenticate, isAdmin, upload.array('images', 10), async (req: AuthRequest, res: Response) => {
+// Upload images to existing blog post (requires blog:write)
+app.post('/api/blog/:id/images', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), upload.array('images', 10), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
         const files = req.files as Express.Multer.File[];
@@ -610,18 +795,30 @@ app.post('/api/blog/:id/images', authenticate, isAdmin, upload.array('images', 1
             return res.status(400).json({ error: 'No images provided' });
         }
 
-        const images = await prisma.blogImage.createMany({
-            data: files.map(file => ({
-                filename: file.filename,
-                blogPostId: parseInt(String(id))
-            }))
+        // Checked before processing, so no file is written for a missing or trashed post
+        const post = await prisma.blogPost.findFirst({ where: { id: parseInt(String(id)), deletedAt: null } });
+        if (!post) {
+            removeTempFiles(req);
+            return res.status(404).json({ error: 'Blog post not found' });
+        }
+
+        const images = await processBlogImages(files);
+        await prisma.blogImage.createMany({
+            data: images.map(image => ({ ...image, blogPostId: post.id }))
         });
 
-        const updatedPost = await prisma.blogPost.findUnique({
-            where: { id: parseInt(String(id)) },
+        await refreshPostHtml(post.id);
+        const updatedPost = await prisma.blogPost.findUniqueOrThrow({
+            where: { id: post.id },
             include: { images: true }
         });
 
+        await recordAudit(req, {
+            action: 'images.add',
+            entityType: 'BlogPost',
+            entityId: post.id,
+            after: { blogPostId: post.id, filenames: images.map(image => image.filename) },
+        });
         res.json(updatedPost);
     } catch (error) {
         console.error('Upload images error:', error);
@@ -629,14 +826,17 @@ app.post('/api/blog/:id/images', authenticate, isAdmin, upload.array('images', 1
     }
 });
 
-// Delete single image (admin only)
-app.delete('/api/blog/images/:imageId', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Delete single image (requires blog:write)
+app.delete('/api/blog/images/:imageId', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), async (req: AuthRequest, res: Response) => {
     const { imageId } = req.params;
     try {
-        const image = await prisma.blogImage.findUnique({ where: { id: parseInt(String(imageId)) } });
+        const image = await prisma.blogImage.findUnique({ where: { id: parseInt(String(imageId)) }, include: { blogPost: { select: { content: true } } } });
         if (!image) {
             return res.status(404).json({ error: 'Image not found' });
         }
+        if (findImageReferences(image.blogPost.content).includes(image.id)) {
+            return res.status(409).json({ error: 'Image is referenced in the post content' });
+        }
 
         // Delete from disk
         // Path traversal protection
@@ -651,6 +851,8 @@ app.delete('/api/blog/images/:imageId', authenticate, isAdmin, async (req: AuthR
 
         // Delete from DB
         await prisma.blogImage.delete({ where: { id: parseInt(String(imageId)) } });
+        const { blogPost, ...deleted } = image;
+        await recordAudit(req, { action: 'delete', entityType: 'BlogImage', entityId: image.id, before: deleted });
         res.status(204).send();
     } catch (error) {
         console.error('Delete image error:', error);
@@ -658,11 +860,51 @@ app.delete('/api/blog/images/:imageId', authenticate, isAdmin, async (req: AuthR
     }
 });
 
+// Update image alt text and caption (requires blog:write)
+app.put('/api/blog/images/:imageId', authenticate, requirePermission(PERMISSIONS.BLOG_WRITE), async (req: AuthRequest, res: Response) => {
+    const { imageId } = req.params;
+    const { alt, caption } = req.body;
+    if ((alt != null && typeof alt !== 'string') || (caption != null && typeof caption !== 'string')) {
+        return res.status(400).json({ error: 'Alt text and caption must be strings' });
+    }
+    try {
+        const before = await prisma.blogImage.findUnique({ where: { id: parseInt(String(imageId)) } });
+        if (!before) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+        const image = await prisma.blogImage.update({
+            where: { id: before.id },
+            data: {
+                alt: alt === undefined ? undefined : alt?.trim() || null,
+                caption: caption === undefined ? undefined : caption?.trim() || null,
+            },
+        });
+        await refreshPostHtml(image.blogPostId);
+        await recordAudit(req, { action: 'update', entityType: 'BlogImage', entityId: image.id, before, after: image });
+        res.json(image);
+    } catch (error) {
+        console.error('Update image error:', error);
+        res.status(500).json({ error: 'Failed to update image' });
+    }
+});
+
 // Gallery Endpoints
 app.get('/api/photos', optionalAuthenticate, getPhotos);
 app.get('/api/photos/:id', optionalAuthenticate, getPhotoById);
-app.post('/api/photos', authenticate, isAdmin, galleryUpload.single('photo'), uploadPhoto);
+app.post('/api/photos', authenticate, requirePermission(PERMISSIONS.GALLERY_WRITE), galleryUpload.single('photo'), uploadPhoto);
+app.post('/api/photos/reorder', authenticate, requirePermission(PERMISSIONS.GALLERY_WRITE), reorderPhotos);
+app.put('/api/photos/:id', authenticate, requirePermission(PERMISSIONS.GALLERY_WRITE), updatePhoto);
+app.delete('/api/photos/:id', authenticate, requirePermission(PERMISSIONS.GALLERY_WRITE), deletePhoto);
 app.use('/api/gamerankings', gameRankingRouter);
+app.use('/api/admin/invitations', invitationRouter);
+app.use('/api/admin/roles', roleRouter);
+app.use('/api/admin/users', adminUserRouter);
+app.use('/api/users', userRouter);
+app.use('/api/admin/audit', auditRouter);
+app.use('/api/trash', trashRouter);
+app.use('/api/search', searchRouter);
+// Blog post comments and their moderation queue
+app.use('/api', commentsRouter);
 
 // Painting Projects Endpoints
 
@@ -670,10 +912,11 @@ app.use('/api/gamerankings', gameRankingRouter);
 app.get('/api/painting-projects', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     try {
         const projects = await prisma.paintingProject.findMany({
-            include: { images: true },
+            where: { deletedAt: null },
+            include: paintingImagesInclude,
             orderBy: { createdAt: 'desc' }
         });
-        res.json(projects);
+        res.json(projects.map(toPaintingResponse));
     } catch (error) {
         console.error('Fetch painting projects error:', error);
         res.status(500).json({ error: 'Failed to fetch painting projects' });
@@ -684,42 +927,40 @@ app.get('/api/painting-projects', optionalAuthenticate, async (req: AuthRequest,
 app.get('/api/painting-projects/:id', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        const project = await prisma.paintingProject.findUnique({
-            where: { id: parseInt(id as string) },
-            include: { images: true }
+        const project = await prisma.paintingProject.findFirst({
+            where: { id: parseInt(id as string), deletedAt: null },
+            include: paintingImagesInclude
         });
         if (!project) {
             return res.status(404).json({ error: 'Project not found' });
         }
-        res.json(project);
+        res.json(toPaintingResponse(project));
     } catch (error) {
         console.error('Fetch painting project error:', error);
         res.status(500).json({ error: 'Failed to fetch painting project' });
     }
 });
 
-// Create painting project (Admin only)
-app.post('/api/painting-projects', authenticate, isAdmin, paintingUpload.array('images', 10), async (req: AuthRequest, res: Response) => {
+// Create painting project (requires painting:write)
+app.post('/api/painting-projects', authenticate, requirePermission(PERMISSIONS.PAINTING_WRITE), paintingUpload.array('images', 10), async (req: AuthRequest, res: Response) => {
     const { title, status, description } = req.body;
 
     if (!title || !status || !description) {
+        removeTempFiles(req);
         return res.status(400).json({ error: 'Title, status and description are required' });
     }
 
     try {
         const files = req.files as Express.Multer.File[];
-        const processedImages: { filename: string }[] = [];
+        const processedImages: ProcessedImage[] = [];
 
         if (files && files.length > 0) {
             for (const file of files) {
                 try {
-                    const filename = await processPaintingImage(file.path);
-                    processedImages.push({ filename });
+                    processedImages.push(await processPaintingImage(file.path));
                 } catch (err) {
+                    // Continue with the other images; the temp file is already cleaned up
                     console.error(`Failed to process image ${file.originalname}:`, err);
-                    // Continue with other images? Or fail? Let's continue.
-                    // Clean up temp file if it exists
-                    if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
                 }
             }
         }
@@ -729,61 +970,56 @@ app.post('/api/painting-projects', authenticate, isAdmin, paintingUpload.array('
                 title,
                 status,
                 description,
+                authorId: req.userId,
                 images: {
-                    create: processedImages
+                    create: processedImages.map(image => ({ filename: image.filename, ...image.preview, ...image.camera, variants: { create: image.variants } }))
                 }
             },
-            include: { images: true }
+            include: paintingImagesInclude
         });
-        res.json(project);
+        const response = toPaintingResponse(project);
+        await recordAudit(req, { action: 'create', entityType: 'PaintingProject', entityId: project.id, after: response });
+        res.json(response);
     } catch (error) {
         console.error('Create painting project error:', error);
-        // Cleanup uploaded files if project creation fails?
-        // Complex to implement here without processed filenames context, skipping for brevity
+        removeTempFiles(req);
         res.status(500).json({ error: 'Failed to create painting project' });
     }
 });
 
-// Update painting project (Admin only)
-app.put('/api/painting-projects/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Update painting project (requires painting:write)
+app.put('/api/painting-projects/:id', authenticate, requirePermission(PERMISSIONS.PAINTING_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { title, status, description } = req.body;
 
     try {
+        const before = await prisma.paintingProject.findFirst({ where: { id: parseInt(id as string), deletedAt: null }, include: paintingImagesInclude });
         const project = await prisma.paintingProject.update({
-            where: { id: parseInt(id as string) },
+            where: { id: parseInt(id as string), deletedAt: null },
             data: { title, status, description },
-            include: { images: true }
+            include: paintingImagesInclude
         });
-        res.json(project);
+        await recordAudit(req, { action: 'update', entityType: 'PaintingProject', entityId: project.id, before, after: project });
+        res.json(toPaintingResponse(project));
     } catch (error) {
         console.error('Update painting project error:', error);
         res.status(404).json({ error: 'Painting project not found' });
     }
 });
 
-// Delete painting project (Admin only)
-app.delete('/api/painting-projects/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Move painting project to the trash (requires painting:write). Images stay on disk until the purge job.
+app.delete('/api/painting-projects/:id', authenticate, requirePermission(PERMISSIONS.PAINTING_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        const project = await prisma.paintingProject.findUnique({
-            where: { id: parseInt(id as string) },
+        const project = await prisma.paintingProject.findFirst({
+            where: { id: parseInt(id as string), deletedAt: null },
             include: { images: true }
         });
 
         if (!project) return res.status(404).json({ error: 'Project not found' });
 
-        // Delete images from disk
-        for (const image of project.images) {
-            const filePath = path.join(PAINTING_DIR, image.filename);
-            if (fs.existsSync(filePath)) {
-                fs.unlinkSync(filePath);
-            }
-        }
-
-        await prisma.paintingProject.delete({
-            where: { id: parseInt(id as string) },
-        });
+        await prisma.paintingProject.update({ where: { id: project.id }, data: { deletedAt: new Date() } });
+        await recordAudit(req, { action: 'delete', entityType: 'PaintingProject', entityId: project.id, before: project });
         res.status(204).send();
     } catch (error) {
         console.error('Delete painting project error:', error);
@@ -791,8 +1027,8 @@ app.delete('/api/painting-projects/:id', authenticate, isAdmin, async (req: Auth
     }
 });
 
-// Add images to project (Admin only)
-app.post('/api/painting-projects/:id/images', authenticate, isAdmin, paintingUpload.array('images', 10), async (req: AuthRequest, res: Response) => {
+// Add images to project (requires painting:write)
+app.post('/api/painting-projects/:id/images', authenticate, requirePermission(PERMISSIONS.PAINTING_WRITE), paintingUpload.array('images', 10), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
         const files = req.files as Express.Multer.File[];
@@ -800,52 +1036,68 @@ app.post('/api/painting-projects/:id/images', authenticate, isAdmin, paintingUpl
             return res.status(400).json({ error: 'No images provided' });
         }
 
-        const processedImages: { filename: string; paintingProjectId: number }[] = [];
+        // Checked before processing, so no file is written for a missing or trashed project
+        const project = await prisma.paintingProject.findFirst({ where: { id: parseInt(id as string), deletedAt: null } });
+        if (!project) {
+            removeTempFiles(req);
+            return res.status(404).json({ error: 'Project not found' });
+        }
+
+        const processedImages: ProcessedImage[] = [];
 
         for (const file of files) {
             try {
-                const filename = await processPaintingImage(file.path);
-                processedImages.push({
-                    filename,
-                    paintingProjectId: parseInt(id as string)
-                });
+                processedImages.push(await processPaintingImage(file.path));
             } catch (err) {
                 console.error(`Failed to process image ${file.originalname}:`, err);
-                if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
             }
         }
 
-        if (processedImages.length > 0) {
-            await prisma.paintingImage.createMany({
-                data: processedImages
-            });
-        }
+        await prisma.$transaction([
+            ...processedImages.map(image => prisma.paintingImage.create({
+                data: {
+                    filename: image.filename,
+                    ...image.preview,
+                    ...image.camera,
+                    paintingProjectId: project.id,
+                    variants: { create: image.variants },
+                },
+            })),
+            // New pictures are progress: the feeds list the project again
+            prisma.paintingProject.update({ where: { id: project.id }, data: { updatedAt: new Date() } }),
+        ]);
 
-        const updatedProject = await prisma.paintingProject.findUnique({
-            where: { id: parseInt(id as string) },
-            include: { images: true }
+        const updatedProject = await prisma.paintingProject.findUniqueOrThrow({
+            where: { id: project.id },
+            include: paintingImagesInclude
         });
 
-        res.json(updatedProject);
+        await recordAudit(req, {
+            action: 'images.add',
+            entityType: 'PaintingProject',
+            entityId: project.id,
+            after: { paintingProjectId: project.id, filenames: processedImages.map(image => image.filename) },
+        });
+        res.json(toPaintingResponse(updatedProject));
     } catch (error) {
         console.error('Upload painting images error:', error);
         res.status(500).json({ error: 'Failed to upload images' });
     }
 });
 
-// Delete single image (Admin only)
-app.delete('/api/painting-projects/images/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Delete single image (requires painting:write)
+app.delete('/api/painting-projects/images/:id', authenticate, requirePermission(PERMISSIONS.PAINTING_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        const image = await prisma.paintingImage.findUnique({ where: { id: parseInt(id as string) } });
+        const image = await prisma.paintingImage.findUnique({ where: { id: parseInt(id as string) }, include: { variants: true } });
         if (!image) return res.status(404).json({ error: 'Image not found' });
 
-        const filePath = path.join(PAINTING_DIR, image.filename);
-        if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-        }
+        const { variants, ...deleted } = image;
+        removeUpload(PAINTING_DIR, image.filename);
+        variants.forEach(variant => removeUpload(PAINTING_DIR, variant.filename));
 
         await prisma.paintingImage.delete({ where: { id: parseInt(id as string) } });
+        await recordAudit(req, { action: 'delete', entityType: 'PaintingImage', entityId: image.id, before: deleted });
         res.status(204).send();
     } catch (error) {
         console.error('Delete painting image error:', error);
@@ -853,16 +1105,38 @@ app.delete('/api/painting-projects/images/:id', authenticate, isAdmin, async (re
     }
 });
 
+// Posts written before Markdown support have no rendered HTML yet, older ones no metadata
+const renderMissingContentHtml = async () => {
+    try {
+        const posts = await prisma.blogPost.findMany({
+            where: { OR: [{ contentHtml: null }, { wordCount: null }] },
+            select: { id: true, content: true, images: true }
+        });
+        for (const post of posts) {
+            await prisma.blogPost.update({ where: { id: post.id }, data: renderPostContent(post.content, post.images) });
+        }
+        if (posts.length > 0) {
+            console.log(`Rendered Markdown for ${posts.length} blog post(s)`);
+        }
+    } catch (error) {
+        console.error('Markdown backfill error:', error);
+    }
+};
+
+// RSS and Atom feeds
+app.use(feedsRouter);
+
 // Sitemap Endpoint
 app.get('/sitemap.xml', async (req: Request, res: Response) => {
     try {
-        const baseUrl = 'https://hobby.ianfraser.fr';
+        const baseUrl = SITE_URL;
 
         // 1. Fetch dynamic data
-        const [blogPosts, paintingProjects, galleryImages] = await Promise.all([
-            prisma.blogPost.findMany({ select: { slug: true, updatedAt: true } }),
-            prisma.paintingProject.findMany({ select: { id: true, updatedAt: true } }),
-            prisma.photo.findMany({ select: { id: true, createdAt: true } }),
+        const [blogPosts, blogTags, paintingProjects, galleryImages] = await Promise.all([
+            prisma.blogPost.findMany({ where: publicPostWhere(), select: { slug: true, updatedAt: true } }),
+            prisma.blogTag.findMany({ where: { posts: { some: publicPostWhere() } }, select: { slug: true } }),
+            prisma.paintingProject.findMany({ where: { deletedAt: null }, select: { id: true, updatedAt: true } }),
+            prisma.photo.findMany({ where: { deletedAt: null }, select: { id: true, createdAt: true } }),
         ]);
 
         // 2. Generate XML content
@@ -895,6 +1169,11 @@ app.get('/sitemap.xml', async (req: Request, res: Response) => {
             addUrl(`/blog/${post.slug}`, 'weekly', '0.7', post.updatedAt);
         });
 
+        // Blog tag pages
+        blogTags.forEach(tag => {
+            addUrl(`/blog/tag/${tag.slug}`, 'weekly', '0.6');
+        });
+
         // Dynamic Painting Projects
         paintingProjects.forEach(project => {
             addUrl(`/painting-projects/${project.id}`, 'monthly', '0.6', project.updatedAt);
@@ -914,7 +1193,10 @@ app.get('/sitemap.xml', async (req: Request, res: Response) => {
         console.error('Sitemap generation error:', error);
         res.status(500).end();
     }
-}); initSecrets().then(() => {
+}); initSecrets().then(async () => {
+    await renderMissingContentHtml();
+    startTrashPurge();
+    startBlogScheduler();
     app.listen(port, '0.0.0.0', () => {
         console.log(`Server running at http://0.0.0.0:${port}`);
     });
@@ -1,32 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { AccessTokenPayload, getActiveSession } from '../utils/sessions';
+import { PermissionKey } from '../utils/permissions';
 
 
 export interface AuthRequest extends Request {
     userId?: number;
     userRole?: string;
+    sessionId?: number;
+    permissions?: string[];
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
         return res.status(401).json({ error: 'Unauthorized: No token provided' });
     }
 
     const token = authHeader.split(' ')[1];
+    let decoded: AccessTokenPayload;
     try {
         const secret = process.env.JWT_SECRET;
         if (!secret) throw new Error('JWT_SECRET is not defined');
-        const decoded = jwt.verify(token, secret) as { userId: number; role: string };
-        req.userId = decoded.userId;
-        req.userRole = decoded.role;
-        next();
+        decoded = jwt.verify(token, secret) as AccessTokenPayload;
     } catch (error) {
         console.error('JWT Authentication Error:', error);
         return res.status(401).json({ error: 'Unauthorized: Invalid token' });
     }
+
+    // Tokens are only valid while their session has not been revoked (logout, reuse detection...)
+    const session = decoded.sessionId ? await getActiveSession(decoded.sessionId, decoded.userId) : null;
+    if (!session) {
+        return res.status(401).json({ error: 'Unauthorized: Session revoked' });
+    }
+
+    req.userId = decoded.userId;
+    req.userRole = session.role;
+    req.sessionId = decoded.sessionId;
+    req.permissions = session.permissions;
+    next();
 };
-export const optionalAuthenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const optionalAuthenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
         return next();
@@ -35,12 +49,29 @@ export const optionalAuthenticate = (req: AuthRequest, res: Response, next: Next
     const token = authHeader.split(' ')[1];
     try {
         const secret = process.env.JWT_SECRET || 'your-secret-key';
-        const decoded = jwt.verify(token, secret) as { userId: number; role: string };
-        req.userId = decoded.userId;
-        req.userRole = decoded.role;
+        const decoded = jwt.verify(token, secret) as AccessTokenPayload;
+        const session = decoded.sessionId ? await getActiveSession(decoded.sessionId, decoded.userId) : null;
+        if (session) {
+            req.userId = decoded.userId;
+            req.userRole = session.role;
+            req.sessionId = decoded.sessionId;
+            req.permissions = session.permissions;
+        }
         next();
     } catch (error) {
         // Even if token is invalid, we continue as guest
         next();
     }
 };
+
+export const hasPermission = (req: AuthRequest, permission: PermissionKey) =>
+    !!req.permissions?.includes(permission);
+
+// Must run after authenticate
+export const requirePermission = (permission: PermissionKey) =>
+    (req: AuthRequest, res: Response, next: NextFunction) => {
+        if (!hasPermission(req, permission)) {
+            return res.status(403).json({ error: `Forbidden: '${permission}' permission required` });
+        }
+        next();
+    };
@@ -0,0 +1,5 @@
+import { PrismaClient } from '@prisma/client';
+
+// Shared by every module: each client holds its own connection pool.
+// It connects on the first query, after initSecrets has set DATABASE_URL.
+export const prisma = new PrismaClient();
@@ -0,0 +1,273 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS, PROTECTED_ROLES } from '../utils/permissions';
+import { clearFailures, userThrottleKey } from '../utils/loginThrottle';
+import { issuePasswordReset } from '../utils/passwordReset';
+import { revokeUserSessions } from '../utils/sessions';
+import { recordAudit } from '../utils/audit';
+import { AVATAR_DIR, removeUpload } from '../utils/uploads';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const userSelect = {
+    id: true,
+    username: true,
+    role: true,
+    createdAt: true,
+    disabledAt: true,
+    lockedUntil: true,
+    failedLoginCount: true,
+    totpEnabled: true,
+    _count: { select: { todos: true, videoGames: true, blogPosts: true, gameRankings: true, paintingProjects: true } },
+} satisfies Prisma.UserSelect;
+
+const serializeUser = (user: Prisma.UserGetPayload<{ select: typeof userSelect }>) => {
+    const { _count, ...rest } = user;
+    return {
+        ...rest,
+        locked: !!user.lockedUntil && user.lockedUntil > new Date(),
+        counts: _count,
+    };
+};
+
+// Raised when an action would leave nobody able to administrate the site
+class LastAdminError extends Error {}
+
+// Refuse to demote, disable or delete the last enabled account holding a protected role
+const ensureOtherAdminRemains = async (user: { id: number; role: string }) => {
+    if (!PROTECTED_ROLES.includes(user.role)) return;
+    const others = await prisma.user.count({
+        where: { role: { in: PROTECTED_ROLES }, disabledAt: null, id: { not: user.id } },
+    });
+    if (others === 0) throw new LastAdminError();
+};
+
+const findTargetUser = (id: string | string[] | undefined) =>
+    prisma.user.findUnique({ where: { id: parseInt(id as string) } });
+
+// List and search users, paginated (requires users:manage)
+router.get('/', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { search, role, status } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const where: Prisma.UserWhereInput = {};
+    if (search) {
+        where.username = { contains: String(search), mode: 'insensitive' };
+    }
+    if (role) {
+        where.role = String(role);
+    }
+    if (status === 'disabled') {
+        where.disabledAt = { not: null };
+    } else if (status === 'active') {
+        where.disabledAt = null;
+    } else if (status === 'locked') {
+        where.lockedUntil = { gt: new Date() };
+    }
+
+    try {
+        const [users, total] = await prisma.$transaction([
+            prisma.user.findMany({
+                where,
+                select: userSelect,
+                orderBy: { username: 'asc' },
+                skip: (page - 1) * pageSize,
+                take: pageSize,
+            }),
+            prisma.user.count({ where }),
+        ]);
+        res.json({ users: users.map(serializeUser), total, page, pageSize });
+    } catch (error) {
+        console.error('Fetch users error:', error);
+        res.status(500).json({ error: 'Failed to fetch users' });
+    }
+});
+
+// Change a user's role (requires users:manage)
+router.put('/:id/role', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { role } = req.body;
+    try {
+        const user = await findTargetUser(req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.id === req.userId) {
+            return res.status(400).json({ error: 'You cannot change your own role' });
+        }
+        if (!role || !(await prisma.role.findUnique({ where: { name: String(role) } }))) {
+            return res.status(400).json({ error: 'Unknown role' });
+        }
+        if (!PROTECTED_ROLES.includes(String(role))) {
+            await ensureOtherAdminRemains(user);
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: user.id },
+            data: { role: String(role) },
+            select: userSelect,
+        });
+        await recordAudit(req, { action: 'role.change', entityType: 'User', entityId: user.id, before: { role: user.role }, after: { role: updated.role } });
+        res.json(serializeUser(updated));
+    } catch (error) {
+        if (error instanceof LastAdminError) {
+            return res.status(409).json({ error: 'At least one enabled administrator must remain' });
+        }
+        console.error('Change role error:', error);
+        res.status(500).json({ error: 'Failed to change role' });
+    }
+});
+
+// Disable an account: it can no longer sign in and its sessions are revoked (requires users:manage)
+router.post('/:id/disable', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+        const user = await findTargetUser(req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.id === req.userId) {
+            return res.status(400).json({ error: 'You cannot disable your own account' });
+        }
+        await ensureOtherAdminRemains(user);
+
+        const updated = await prisma.user.update({
+            where: { id: user.id },
+            data: { disabledAt: user.disabledAt ?? new Date() },
+            select: userSelect,
+        });
+        await revokeUserSessions(user.id);
+        await recordAudit(req, { action: 'disable', entityType: 'User', entityId: user.id, before: { disabledAt: user.disabledAt }, after: { disabledAt: updated.disabledAt } });
+        res.json(serializeUser(updated));
+    } catch (error) {
+        if (error instanceof LastAdminError) {
+            return res.status(409).json({ error: 'At least one enabled administrator must remain' });
+        }
+        console.error('Disable user error:', error);
+        res.status(500).json({ error: 'Failed to disable user' });
+    }
+});
+
+// Re-enable a disabled account (requires users:manage)
+router.post('/:id/enable', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const user = await prisma.user.update({
+            where: { id: parseInt(id as string) },
+            data: { disabledAt: null },
+            select: userSelect,
+        });
+        await recordAudit(req, { action: 'enable', entityType: 'User', entityId: user.id, after: { disabledAt: null } });
+        res.json(serializeUser(user));
+    } catch (error) {
+        console.error('Enable user error:', error);
+        res.status(404).json({ error: 'User not found' });
+    }
+});
+
+// Delete a user. Their todos, video games, posts, rankings and projects are handed over to another account,
+// the acting admin by default or ?reassignTo=<userId> (requires users:manage)
+router.delete('/:id', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const reassignToId = req.query.reassignTo ? parseInt(req.query.reassignTo as string) : req.userId!;
+    try {
+        const user = await findTargetUser(req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.id === req.userId) {
+            return res.status(400).json({ error: 'You cannot delete your own account' });
+        }
+        if (reassignToId === user.id || !(await prisma.user.findUnique({ where: { id: reassignToId } }))) {
+            return res.status(400).json({ error: 'Invalid reassignment target' });
+        }
+        await ensureOtherAdminRemains(user);
+
+        const reassigned = await prisma.$transaction(async (tx) => {
+            const todos = await tx.todo.updateMany({ where: { userId: user.id }, data: { userId: reassignToId } });
+            const videoGames = await tx.videoGame.updateMany({ where: { userId: user.id }, data: { userId: reassignToId } });
+            const blogPosts = await tx.blogPost.updateMany({ where: { authorId: user.id }, data: { authorId: reassignToId } });
+            const gameRankings = await tx.gameRanking.updateMany({ where: { authorId: user.id }, data: { authorId: reassignToId } });
+            const paintingProjects = await tx.paintingProject.updateMany({ where: { authorId: user.id }, data: { authorId: reassignToId } });
+            await tx.user.delete({ where: { id: user.id } });
+            return {
+                todos: todos.count,
+                videoGames: videoGames.count,
+                blogPosts: blogPosts.count,
+                gameRankings: gameRankings.count,
+                paintingProjects: paintingProjects.count,
+            };
+        });
+        // The avatar is the only upload owned by the account itself, the rest was handed over
+        if (user.avatarFilename) {
+            removeUpload(AVATAR_DIR, user.avatarFilename);
+        }
+        console.log('User deleted:', { userId: user.id, username: user.username, reassignToId, reassigned });
+        await recordAudit(req, { action: 'delete', entityType: 'User', entityId: user.id, before: user, after: { reassignedTo: reassignToId, reassigned } });
+        res.json({ deleted: user.id, reassignedTo: reassignToId, reassigned });
+    } catch (error) {
+        if (error instanceof LastAdminError) {
+            return res.status(409).json({ error: 'At least one enabled administrator must remain' });
+        }
+        console.error('Delete user error:', error);
+        res.status(500).json({ error: 'Failed to delete user' });
+    }
+});
+
+// Unlock an account locked by repeated login failures (requires users:manage)
+router.post('/:id/unlock', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const user = await prisma.user.update({
+            where: { id: parseInt(id as string) },
+            data: { failedLoginCount: 0, lockedUntil: null },
+            select: { id: true, username: true, role: true, failedLoginCount: true, lockedUntil: true },
+        });
+        clearFailures([userThrottleKey(user.username)]);
+        await recordAudit(req, { action: 'unlock', entityType: 'User', entityId: user.id });
+        res.json(user);
+    } catch (error) {
+        console.error('Unlock user error:', error);
+        res.status(404).json({ error: 'User not found' });
+    }
+});
+
+// Remove two-factor authentication from an account that lost its device and recovery codes (requires users:manage)
+router.post('/:id/2fa/reset', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const user = await prisma.user.update({
+            where: { id: parseInt(id as string) },
+            data: { totpEnabled: false, totpSecret: null, totpLastUsedStep: null, totpRecoveryCodes: [] },
+            select: { id: true, username: true, totpEnabled: true },
+        });
+        await recordAudit(req, { action: '2fa.reset', entityType: 'User', entityId: user.id });
+        res.json(user);
+    } catch (error) {
+        console.error('Reset 2FA error:', error);
+        res.status(404).json({ error: 'User not found' });
+    }
+});
+
+// Issue a single-use password reset token, to be handed to the user (requires users:manage)
+router.post('/:id/password-reset', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const user = await prisma.user.findUnique({ where: { id: parseInt(id as string) } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const { token, expiresAt } = await issuePasswordReset(user.id, req.userId);
+        await recordAudit(req, { action: 'password-reset.issue', entityType: 'User', entityId: user.id, after: { expiresAt } });
+        res.status(201).json({ userId: user.id, username: user.username, token, expiresAt });
+    } catch (error) {
+        console.error('Issue password reset error:', error);
+        res.status(500).json({ error: 'Failed to issue password reset' });
+    }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../utils/permissions';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const parseDate = (value: unknown) => {
+    if (!value) return undefined;
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+};
+
+// Browse the audit trail, newest first. Filters: userId, action, entityType, entityId, from, to (requires audit:read)
+router.get('/', authenticate, requirePermission(PERMISSIONS.AUDIT_READ), async (req: AuthRequest, res: Response) => {
+    const { userId, action, entityType, entityId } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+        return res.status(400).json({ error: 'Invalid date filter' });
+    }
+
+    const where: Prisma.AuditEventWhereInput = {};
+    if (userId) where.userId = parseInt(userId as string);
+    if (action) where.action = String(action);
+    if (entityType) where.entityType = String(entityType);
+    if (entityId) where.entityId = String(entityId);
+    if (from || to) where.createdAt = { gte: from, lte: to };
+
+    try {
+        const [events, total] = await prisma.$transaction([
+            prisma.auditEvent.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * pageSize,
+                take: pageSize,
+            }),
+            prisma.auditEvent.count({ where }),
+        ]);
+        res.json({ events, total, page, pageSize });
+    } catch (error) {
+        console.error('Fetch audit events error:', error);
+        res.status(500).json({ error: 'Failed to fetch audit events' });
+    }
+});
+
+export default router;
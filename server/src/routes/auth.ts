@@ -0,0 +1,344 @@
+import { Router, Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { createSession, rotateSession, revokeRefreshToken, revokeUserSessions } from '../utils/sessions';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validatePassword, getPasswordPolicy } from '../utils/passwordPolicy';
+import { findPasswordReset, consumePasswordReset } from '../utils/passwordReset';
+import { getRolePermissions } from '../utils/permissions';
+import { verifyTotp, consumeRecoveryCode } from '../utils/totp';
+import { throttleKeys, userThrottleKey, getRetryAfterMs, recordFailure, clearFailures } from '../utils/loginThrottle';
+import { sendThrottled, sendLocked, registerFailedLogin, unknownUserLockedUntil, registerFailedUnknownLogin } from '../utils/accountLockout';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const sessionMeta = (req: Request) => ({
+    ip: req.ip,
+    userAgent: req.headers['user-agent'],
+});
+
+// User payload returned to the client, with the permissions of its role for UI decisions
+const authUser = async (user: { id: number; username: string; role: string }) => ({
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    permissions: await getRolePermissions(user.role),
+});
+
+const sendPasswordRejected = (res: Response, violations: string[]) =>
+    res.status(400).json({ error: violations[0], violations });
+
+// Raised inside the registration transaction so the user row is rolled back
+class InvalidInvitationError extends Error {}
+
+// Register. Accounts are plain users unless a valid invitation code grants another role.
+router.post('/register', async (req: Request, res: Response) => {
+    const { username, password, invitationCode } = req.body;
+    if (!username || !password) {
+        return res.status(400).json({ error: 'Username and password are required' });
+    }
+    const violations = validatePassword(password, username);
+    if (violations.length > 0) {
+        return sendPasswordRejected(res, violations);
+    }
+    try {
+        const hashedPassword = await bcrypt.hash(password, 10);
+        console.log('Registration attempt:', { username, invitationCodeProvided: !!invitationCode });
+
+        const user = await prisma.$transaction(async (tx) => {
+            if (!invitationCode) {
+                return tx.user.create({
+                    data: { username, password: hashedPassword, role: 'user' },
+                });
+            }
+
+            const now = new Date();
+            const invitation = await tx.invitation.findUnique({ where: { code: String(invitationCode) } });
+            if (!invitation) throw new InvalidInvitationError();
+
+            // Claim the invitation atomically so a code can never be used twice
+            const claimed = await tx.invitation.updateMany({
+                where: { id: invitation.id, usedAt: null, revokedAt: null, expiresAt: { gt: now } },
+                data: { usedAt: now },
+            });
+            if (claimed.count === 0) throw new InvalidInvitationError();
+
+            const created = await tx.user.create({
+                data: { username, password: hashedPassword, role: invitation.role },
+            });
+            await tx.invitation.update({
+                where: { id: invitation.id },
+                data: { usedById: created.id },
+            });
+            return created;
+        });
+        console.log('Assigned role:', user.role);
+
+        const tokens = await createSession(user, sessionMeta(req));
+        res.json({ ...tokens, user: await authUser(user) });
+    } catch (error) {
+        if (error instanceof InvalidInvitationError) {
+            return res.status(400).json({ error: 'Invalid or expired invitation code' });
+        }
+        console.error('Register error:', error);
+        res.status(400).json({ error: 'Username already exists or invalid data' });
+    }
+});
+
+// Only revealed once the password is known to be right
+const sendDisabled = (res: Response) =>
+    res.status(403).json({ error: 'Account disabled, contact an administrator' });
+
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+const signTwoFactorChallenge = (userId: number) => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error('JWT_SECRET is not defined');
+    return jwt.sign({ userId, purpose: '2fa' }, secret, { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+};
+
+const verifyTwoFactorChallenge = (token: string): number | null => {
+    try {
+        const secret = process.env.JWT_SECRET;
+        if (!secret) throw new Error('JWT_SECRET is not defined');
+        const decoded = jwt.verify(token, secret) as { userId: number; purpose?: string };
+        return decoded.purpose === '2fa' ? decoded.userId : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+// Reset failure counters and open the session once every login step has succeeded
+const completeLogin = async (req: Request, res: Response, user: { id: number; username: string; role: string; failedLoginCount: number; lockedUntil: Date | null }) => {
+    // Only the username is cleared: a valid login must not reset the counter of a guessing IP
+    clearFailures([userThrottleKey(user.username)]);
+    if (user.failedLoginCount > 0 || user.lockedUntil) {
+        await prisma.user.update({ where: { id: user.id }, data: { failedLoginCount: 0, lockedUntil: null } });
+    }
+
+    const tokens = await createSession(user, sessionMeta(req));
+    res.json({ ...tokens, user: await authUser(user) });
+};
+
+// Login
+router.post('/login', async (req: Request, res: Response) => {
+    const { username, password } = req.body;
+    if (!username || !password) {
+        return res.status(400).json({ error: 'Username and password are required' });
+    }
+
+    const keys = throttleKeys(req.ip, String(username));
+    const retryAfterMs = getRetryAfterMs(keys);
+    if (retryAfterMs > 0) {
+        return sendThrottled(res, retryAfterMs);
+    }
+
+    try {
+        const user = await prisma.user.findUnique({ where: { username } });
+        const currentLock = user ? user.lockedUntil : unknownUserLockedUntil(String(username));
+        if (currentLock && currentLock > new Date()) {
+            return sendLocked(res, currentLock);
+        }
+
+        if (!user || !(await bcrypt.compare(password, user.password))) {
+            recordFailure(keys);
+            const lockedUntil = user ? await registerFailedLogin(user.id) : registerFailedUnknownLogin(String(username));
+            if (lockedUntil) {
+                return sendLocked(res, lockedUntil);
+            }
+            return res.status(401).json({ error: 'Invalid username or password' });
+        }
+
+        if (user.disabledAt) {
+            return sendDisabled(res);
+        }
+
+        // Password is right but a second factor is enrolled: hand out a short-lived challenge instead
+        if (user.totpEnabled) {
+            return res.json({ twoFactorRequired: true, challengeToken: signTwoFactorChallenge(user.id) });
+        }
+
+        await completeLogin(req, res, user);
+    } catch (error) {
+        console.error('Login error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Second login step for accounts with TOTP enabled: a code from the app, or a single-use recovery code
+router.post('/login/2fa', async (req: Request, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+    if (!challengeToken || (!code && !recoveryCode)) {
+        return res.status(400).json({ error: 'Challenge token and verification code are required' });
+    }
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    if (!userId) {
+        return res.status(401).json({ error: 'Login challenge expired, please sign in again' });
+    }
+
+    try {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || !user.totpEnabled || !user.totpSecret) {
+            return res.status(401).json({ error: 'Login challenge expired, please sign in again' });
+        }
+        if (user.disabledAt) {
+            return sendDisabled(res);
+        }
+
+        const keys = throttleKeys(req.ip, user.username);
+        const retryAfterMs = getRetryAfterMs(keys);
+        if (retryAfterMs > 0) {
+            return sendThrottled(res, retryAfterMs);
+        }
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+            return sendLocked(res, user.lockedUntil);
+        }
+
+        let verified = false;
+        if (code) {
+            const step = verifyTotp(user.totpSecret, String(code), user.totpLastUsedStep);
+            if (step !== null) {
+                // Conditional update so the same code cannot be used twice concurrently
+                const { count } = await prisma.user.updateMany({
+                    where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+                    data: { totpLastUsedStep: step },
+                });
+                verified = count === 1;
+            }
+        } else {
+            verified = await consumeRecoveryCode(user.id, recoveryCode);
+        }
+
+        if (!verified) {
+            recordFailure(keys);
+            const lockedUntil = await registerFailedLogin(user.id);
+            if (lockedUntil) {
+                return sendLocked(res, lockedUntil);
+            }
+            return res.status(401).json({ error: 'Invalid verification code' });
+        }
+
+        await completeLogin(req, res, user);
+    } catch (error) {
+        console.error('Two-factor login error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh', async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+        return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    try {
+        const result = await rotateSession(refreshToken, sessionMeta(req));
+        if (!result) {
+            return res.status(401).json({ error: 'Invalid or expired refresh token' });
+        }
+        const { user, ...tokens } = result;
+        res.json({ ...tokens, user: await authUser(user) });
+    } catch (error) {
+        console.error('Refresh error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Logout: revoke the session behind the refresh token
+router.post('/logout', async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+        return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    try {
+        await revokeRefreshToken(refreshToken);
+        res.status(204).send();
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Password rules, so the client can display them before submitting
+router.get('/password/policy', (req: Request, res: Response) => {
+    res.json(getPasswordPolicy());
+});
+
+// Change the password of the logged-in user; every other session is signed out
+router.put('/password', authenticate, async (req: AuthRequest, res: Response) => {
+    const { currentPassword, newPassword } = req.body;
+    if (!currentPassword || !newPassword) {
+        return res.status(400).json({ error: 'Current and new password are required' });
+    }
+
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (!(await bcrypt.compare(currentPassword, user.password))) {
+            return res.status(403).json({ error: 'Current password is incorrect' });
+        }
+
+        const violations = validatePassword(newPassword, user.username);
+        if (await bcrypt.compare(newPassword, user.password)) {
+            violations.push('New password must differ from the current one');
+        }
+        if (violations.length > 0) {
+            return sendPasswordRejected(res, violations);
+        }
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { password: await bcrypt.hash(newPassword, 10), passwordChangedAt: new Date() },
+        });
+        await revokeUserSessions(user.id, req.sessionId);
+        res.status(204).send();
+    } catch (error) {
+        console.error('Change password error:', error);
+        res.status(500).json({ error: 'Failed to change password' });
+    }
+});
+
+// Set a new password with a reset token issued by an admin. Also lifts any lockout.
+router.post('/password/reset', async (req: Request, res: Response) => {
+    const { token, newPassword } = req.body;
+    if (!token || !newPassword) {
+        return res.status(400).json({ error: 'Reset token and new password are required' });
+    }
+
+    try {
+        const reset = await findPasswordReset(token);
+        if (!reset) {
+            return res.status(400).json({ error: 'Invalid or expired reset token' });
+        }
+
+        const violations = validatePassword(newPassword, reset.user.username);
+        if (violations.length > 0) {
+            return sendPasswordRejected(res, violations);
+        }
+
+        if (!(await consumePasswordReset(reset.id))) {
+            return res.status(400).json({ error: 'Invalid or expired reset token' });
+        }
+        await prisma.user.update({
+            where: { id: reset.user.id },
+            data: {
+                password: await bcrypt.hash(newPassword, 10),
+                passwordChangedAt: new Date(),
+                failedLoginCount: 0,
+                lockedUntil: null,
+            },
+        });
+        await revokeUserSessions(reset.user.id);
+        clearFailures([userThrottleKey(reset.user.username)]);
+        res.status(204).send();
+    } catch (error) {
+        console.error('Reset password error:', error);
+        res.status(500).json({ error: 'Failed to reset password' });
+    }
+});
+
+export default router;
@@ -0,0 +1,210 @@
+import { Router, Response } from 'express';
+import { authenticate, optionalAuthenticate, requirePermission, hasPermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../utils/permissions';
+import { recordAudit } from '../utils/audit';
+import { publicPostWhere } from '../utils/blogPublication';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const COMMENT_STATUSES = ['pending', 'approved', 'rejected', 'spam'] as const;
+type CommentStatus = typeof COMMENT_STATUSES[number];
+
+const MAX_COMMENT_LENGTH = 2000;
+// Per-user rate limit, counted from the database so it survives restarts
+const RATE_LIMIT_COUNT = 5;
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const QUEUE_PAGE_SIZE = 20;
+
+const commentAuthorSelect = { username: true, displayName: true, avatarFilename: true };
+
+interface CommentNode {
+    id: number;
+    content: string;
+    status: string;
+    parentId: number | null;
+    createdAt: Date;
+    author: { username: string; displayName: string | null; avatarFilename: string | null };
+    replies: CommentNode[];
+}
+
+// Nest replies under their parent. Replies whose parent is not visible are left out with it.
+function buildThread(comments: Omit<CommentNode, 'replies'>[]): CommentNode[] {
+    const nodes = new Map<number, CommentNode>(comments.map(comment => [comment.id, { ...comment, replies: [] }]));
+    const roots: CommentNode[] = [];
+    for (const node of nodes.values()) {
+        if (node.parentId === null) {
+            roots.push(node);
+        } else {
+            nodes.get(node.parentId)?.replies.push(node);
+        }
+    }
+    return roots;
+}
+
+// Milliseconds before the user may comment again (0 if allowed)
+async function getCommentRetryAfterMs(userId: number) {
+    const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MS);
+    const recent = await prisma.comment.findMany({
+        where: { authorId: userId, createdAt: { gt: since } },
+        orderBy: { createdAt: 'desc' },
+        take: RATE_LIMIT_COUNT,
+        select: { createdAt: true },
+    });
+    if (recent.length < RATE_LIMIT_COUNT) return 0;
+    return recent[RATE_LIMIT_COUNT - 1].createdAt.getTime() + RATE_LIMIT_WINDOW_MS - Date.now();
+}
+
+// Approved comments of a published post as a thread, plus the viewer's own comments awaiting moderation
+router.get('/blog/:id/comments', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
+    const postId = parseInt(req.params.id as string);
+    try {
+        const post = await prisma.blogPost.findFirst({ where: { id: postId, ...publicPostWhere() }, select: { id: true } });
+        if (!post) {
+            return res.status(404).json({ error: 'Post not found' });
+        }
+
+        const comments = await prisma.comment.findMany({
+            where: {
+                blogPostId: postId,
+                OR: [
+                    { status: 'approved' },
+                    ...(req.userId ? [{ status: 'pending', authorId: req.userId }] : []),
+                ],
+            },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, content: true, status: true, parentId: true, createdAt: true, author: { select: commentAuthorSelect } },
+        });
+        res.json(buildThread(comments));
+    } catch (error) {
+        console.error('Fetch comments error:', error);
+        res.status(500).json({ error: 'Failed to fetch comments' });
+    }
+});
+
+// Comment a published post, or reply to an approved comment. Moderators' comments skip the queue.
+router.post('/blog/:id/comments', authenticate, async (req: AuthRequest, res: Response) => {
+    const postId = parseInt(req.params.id as string);
+    const content = typeof req.body.content === 'string' ? req.body.content.trim() : '';
+    const parentId = req.body.parentId != null ? parseInt(req.body.parentId) : null;
+
+    if (!content) {
+        return res.status(400).json({ error: 'Content is required' });
+    }
+    if (content.length > MAX_COMMENT_LENGTH) {
+        return res.status(400).json({ error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` });
+    }
+    if (parentId !== null && isNaN(parentId)) {
+        return res.status(400).json({ error: 'Invalid parent comment' });
+    }
+
+    const isModerator = hasPermission(req, PERMISSIONS.COMMENTS_MODERATE);
+
+    try {
+        const post = await prisma.blogPost.findFirst({ where: { id: postId, ...publicPostWhere() }, select: { id: true } });
+        if (!post) {
+            return res.status(404).json({ error: 'Post not found' });
+        }
+
+        if (parentId !== null) {
+            const parent = await prisma.comment.findFirst({ where: { id: parentId, blogPostId: postId, status: 'approved' } });
+            if (!parent) {
+                return res.status(400).json({ error: 'Invalid parent comment' });
+            }
+        }
+
+        if (!isModerator) {
+            const retryAfterMs = await getCommentRetryAfterMs(req.userId!);
+            if (retryAfterMs > 0) {
+                const retryAfter = Math.ceil(retryAfterMs / 1000);
+                res.set('Retry-After', String(retryAfter));
+                return res.status(429).json({ error: 'Too many comments, please try again later', retryAfter });
+            }
+        }
+
+        const comment = await prisma.comment.create({
+            data: {
+                content,
+                blogPostId: postId,
+                parentId,
+                authorId: req.userId!,
+                status: isModerator ? 'approved' : 'pending',
+            },
+            select: { id: true, content: true, status: true, parentId: true, createdAt: true, author: { select: commentAuthorSelect } },
+        });
+        res.status(201).json({ ...comment, replies: [] });
+    } catch (error) {
+        console.error('Create comment error:', error);
+        res.status(500).json({ error: 'Failed to create comment' });
+    }
+});
+
+// Moderation queue: pending comments oldest first, the others latest first (requires comments:moderate)
+router.get('/comments/moderation', authenticate, requirePermission(PERMISSIONS.COMMENTS_MODERATE), async (req: AuthRequest, res: Response) => {
+    const status = (req.query.status as string) || 'pending';
+    if (!COMMENT_STATUSES.includes(status as CommentStatus)) {
+        return res.status(400).json({ error: `Status must be one of: ${COMMENT_STATUSES.join(', ')}` });
+    }
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+
+    try {
+        const where = { status };
+        const [comments, total, counts] = await Promise.all([
+            prisma.comment.findMany({
+                where,
+                orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+                skip: (page - 1) * QUEUE_PAGE_SIZE,
+                take: QUEUE_PAGE_SIZE,
+                include: {
+                    author: { select: commentAuthorSelect },
+                    blogPost: { select: { id: true, title: true, slug: true } },
+                    parent: { select: { id: true, content: true, author: { select: commentAuthorSelect } } },
+                    moderatedBy: { select: { username: true } },
+                },
+            }),
+            prisma.comment.count({ where }),
+            prisma.comment.groupBy({ by: ['status'], _count: { _all: true } }),
+        ]);
+
+        res.json({
+            comments,
+            counts: Object.fromEntries(COMMENT_STATUSES.map(key => [key, counts.find(count => count.status === key)?._count._all ?? 0])),
+            pagination: {
+                page,
+                limit: QUEUE_PAGE_SIZE,
+                total,
+                totalPages: Math.ceil(total / QUEUE_PAGE_SIZE),
+            },
+        });
+    } catch (error) {
+        console.error('Fetch moderation queue error:', error);
+        res.status(500).json({ error: 'Failed to fetch moderation queue' });
+    }
+});
+
+// Approve, reject or flag a comment as spam (requires comments:moderate)
+router.put('/comments/:id/moderation', authenticate, requirePermission(PERMISSIONS.COMMENTS_MODERATE), async (req: AuthRequest, res: Response) => {
+    const id = parseInt(req.params.id as string);
+    const { status } = req.body;
+    if (!['approved', 'rejected', 'spam'].includes(status)) {
+        return res.status(400).json({ error: 'Status must be one of: approved, rejected, spam' });
+    }
+
+    try {
+        const before = await prisma.comment.findUnique({ where: { id } });
+        if (!before) {
+            return res.status(404).json({ error: 'Comment not found' });
+        }
+        const comment = await prisma.comment.update({
+            where: { id },
+            data: { status, moderatedById: req.userId, moderatedAt: new Date() },
+        });
+        await recordAudit(req, { action: 'moderate', entityType: 'Comment', entityId: id, before, after: comment });
+        res.json(comment);
+    } catch (error) {
+        console.error('Moderate comment error:', error);
+        res.status(500).json({ error: 'Failed to moderate comment' });
+    }
+});
+
+export default router;
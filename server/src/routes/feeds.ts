@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { UPLOADS_DIR, PAINTING_DIR } from '../utils/uploads';
+import { publicPostWhere } from '../utils/blogPublication';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+export const SITE_URL = process.env.SITE_URL || 'https://hobby.ianfraser.fr';
+const SITE_TITLE = 'Praetor Scott';
+const FEED_SIZE = 20;
+
+const MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+};
+
+interface Enclosure {
+    url: string;
+    type: string;
+    length: number;
+}
+
+interface FeedItem {
+    title: string;
+    url: string;
+    date: Date;
+    updated: Date;
+    // Updates are news (painting progress): RSS has no update date, so the item is published
+    // again with a guid per version, otherwise readers skip it as already seen
+    republishOnUpdate: boolean;
+    author: string | null;
+    categories: string[];
+    // Full HTML content, with absolute links
+    html: string;
+    enclosures: Enclosure[];
+}
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Feed readers fetch content out of the site, so root-relative links must carry the host
+const absolutizeUrls = (html: string) => html.replace(/(src|href)="\/(?!\/)/g, `$1="${SITE_URL}/`);
+
+// Enclosures need the file size; uploads missing on disk are skipped
+const toEnclosure = async (dir: string, urlPath: string, filename: string): Promise<Enclosure | null> => {
+    try {
+        const stats = await fs.promises.stat(path.join(dir, path.basename(filename)));
+        return {
+            url: `${SITE_URL}${urlPath}/${encodeURIComponent(filename)}`,
+            type: MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream',
+            length: stats.size,
+        };
+    } catch {
+        return null;
+    }
+};
+
+const toEnclosures = async (dir: string, urlPath: string, filenames: string[]) =>
+    (await Promise.all(filenames.map(filename => toEnclosure(dir, urlPath, filename))))
+        .filter((enclosure): enclosure is Enclosure => enclosure !== null);
+
+const escapeParagraphs = (text: string) => text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br />')}</p>`)
+    .join('\n');
+
+async function loadBlogItems(): Promise<FeedItem[]> {
+    const posts = await prisma.blogPost.findMany({
+        where: publicPostWhere(),
+        orderBy: [{ publishedAt: 'desc' }, { createdAt: 'desc' }],
+        take: FEED_SIZE,
+        include: {
+            images: { orderBy: { id: 'asc' } },
+            tags: { select: { name: true } },
+            author: { select: { username: true, displayName: true } },
+        },
+    });
+    return Promise.all(posts.map(async post => ({
+        title: post.title,
+        url: `${SITE_URL}/blog/${post.slug}`,
+        date: post.publishedAt || post.createdAt,
+        updated: post.updatedAt,
+        republishOnUpdate: false,
+        author: post.author.displayName || post.author.username,
+        categories: post.tags.map(tag => tag.name),
+        html: absolutizeUrls(post.contentHtml ?? escapeParagraphs(post.content)),
+        enclosures: await toEnclosures(UPLOADS_DIR, '/uploads/blog', post.images.map(image => image.filename)),
+    })));
+}
+
+async function loadPaintingItems(): Promise<FeedItem[]> {
+    const projects = await prisma.paintingProject.findMany({
+        where: { deletedAt: null },
+        orderBy: { updatedAt: 'desc' },
+        take: FEED_SIZE,
+        include: {
+            images: { orderBy: { id: 'asc' } },
+            author: { select: { username: true, displayName: true } },
+        },
+    });
+    return Promise.all(projects.map(async project => {
+        const images = project.images
+            .map(image => `<p><img src="${SITE_URL}/uploads/painting/${encodeURIComponent(image.filename)}" alt="${escapeXml(project.title)}" /></p>`)
+            .join('\n');
+        return {
+            title: project.title,
+            url: `${SITE_URL}/painting-projects/${project.id}`,
+            date: project.createdAt,
+            updated: project.updatedAt,
+            republishOnUpdate: true,
+            author: project.author ? (project.author.displayName || project.author.username) : null,
+            categories: [project.status],
+            html: `${escapeParagraphs(project.description)}\n${images}`,
+            enclosures: await toEnclosures(PAINTING_DIR, '/uploads/painting', project.images.map(image => image.filename)),
+        };
+    }));
+}
+
+// RSS 2.0 only allows one enclosure per item: the first image
+function renderRss(title: string, description: string, pageUrl: string, feedUrl: string, items: FeedItem[]) {
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">\n';
+    xml += '  <channel>\n';
+    xml += `    <title>${escapeXml(title)}</title>\n`;
+    xml += `    <link>${pageUrl}</link>\n`;
+    xml += `    <description>${escapeXml(description)}</description>\n`;
+    xml += '    <language>fr-FR</language>\n';
+    xml += `    <atom:link href="${feedUrl}" rel="self" type="application/rss+xml" />\n`;
+    if (items.length > 0) {
+        xml += `    <lastBuildDate>${items[0].updated.toUTCString()}</lastBuildDate>\n`;
+    }
+    items.forEach(item => {
+        xml += '    <item>\n';
+        xml += `      <title>${escapeXml(item.title)}</title>\n`;
+        xml += `      <link>${item.url}</link>\n`;
+        if (item.republishOnUpdate) {
+            xml += `      <guid isPermaLink="false">${item.url}#${item.updated.getTime()}</guid>\n`;
+            xml += `      <pubDate>${item.updated.toUTCString()}</pubDate>\n`;
+        } else {
+            xml += `      <guid isPermaLink="true">${item.url}</guid>\n`;
+            xml += `      <pubDate>${item.date.toUTCString()}</pubDate>\n`;
+        }
+        if (item.author) {
+            xml += `      <dc:creator>${escapeXml(item.author)}</dc:creator>\n`;
+        }
+        item.categories.forEach(category => {
+            xml += `      <category>${escapeXml(category)}</category>\n`;
+        });
+        xml += `      <content:encoded>${escapeXml(item.html)}</content:encoded>\n`;
+        const [enclosure] = item.enclosures;
+        if (enclosure) {
+            xml += `      <enclosure url="${enclosure.url}" length="${enclosure.length}" type="${enclosure.type}" />\n`;
+        }
+        xml += '    </item>\n';
+    });
+    xml += '  </channel>\n';
+    xml += '</rss>';
+    return xml;
+}
+
+function renderAtom(title: string, pageUrl: string, feedUrl: string, items: FeedItem[]) {
+    const updated = items.reduce((latest, item) => (item.updated > latest ? item.updated : latest), new Date(0));
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="fr-FR">\n';
+    xml += `  <title>${escapeXml(title)}</title>\n`;
+    xml += `  <id>${feedUrl}</id>\n`;
+    xml += `  <link href="${pageUrl}" />\n`;
+    xml += `  <link href="${feedUrl}" rel="self" type="application/atom+xml" />\n`;
+    xml += `  <updated>${updated.toISOString()}</updated>\n`;
+    xml += `  <author><name>${SITE_TITLE}</name></author>\n`;
+    items.forEach(item => {
+        xml += '  <entry>\n';
+        xml += `    <title>${escapeXml(item.title)}</title>\n`;
+        xml += `    <id>${item.url}</id>\n`;
+        xml += `    <link href="${item.url}" />\n`;
+        xml += `    <published>${item.date.toISOString()}</published>\n`;
+        xml += `    <updated>${item.updated.toISOString()}</updated>\n`;
+        if (item.author) {
+            xml += `    <author><name>${escapeXml(item.author)}</name></author>\n`;
+        }
+        item.categories.forEach(category => {
+            xml += `    <category term="${escapeXml(category)}" />\n`;
+        });
+        item.enclosures.forEach(enclosure => {
+            xml += `    <link rel="enclosure" href="${enclosure.url}" length="${enclosure.length}" type="${enclosure.type}" />\n`;
+        });
+        xml += `    <content type="html">${escapeXml(item.html)}</content>\n`;
+        xml += '  </entry>\n';
+    });
+    xml += '</feed>';
+    return xml;
+}
+
+// Blog RSS 2.0 feed
+router.get('/feed.xml', async (req: Request, res: Response) => {
+    try {
+        const items = await loadBlogItems();
+        res.header('Content-Type', 'application/rss+xml; charset=utf-8');
+        res.status(200).send(renderRss(`Blog - ${SITE_TITLE}`, 'Les derniers articles du blog de Praetor Scott.', `${SITE_URL}/blog`, `${SITE_URL}/feed.xml`, items));
+    } catch (error) {
+        console.error('RSS feed generation error:', error);
+        res.status(500).end();
+    }
+});
+
+// Blog Atom feed
+router.get('/atom.xml', async (req: Request, res: Response) => {
+    try {
+        const items = await loadBlogItems();
+        res.header('Content-Type', 'application/atom+xml; charset=utf-8');
+        res.status(200).send(renderAtom(`Blog - ${SITE_TITLE}`, `${SITE_URL}/blog`, `${SITE_URL}/atom.xml`, items));
+    } catch (error) {
+        console.error('Atom feed generation error:', error);
+        res.status(500).end();
+    }
+});
+
+// Painting projects RSS 2.0 feed, most recently updated first
+router.get('/painting-feed.xml', async (req: Request, res: Response) => {
+    try {
+        const items = await loadPaintingItems();
+        res.header('Content-Type', 'application/rss+xml; charset=utf-8');
+        res.status(200).send(renderRss(`Projets de peinture - ${SITE_TITLE}`, 'Les projets de peinture de figurines de Praetor Scott.', `${SITE_URL}/painting-projects`, `${SITE_URL}/painting-feed.xml`, items));
+    } catch (error) {
+        console.error('Painting feed generation error:', error);
+        res.status(500).end();
+    }
+});
+
+export default router;
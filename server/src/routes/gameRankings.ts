@@ -1,23 +1,17 @@
 
 import { Router, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { authenticate, optionalAuthenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, optionalAuthenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../utils/permissions';
+import { recordAudit } from '../utils/audit';
+import { prisma } from '../prisma';
 
 const router = Router();
-const prisma = new PrismaClient();
-
-// Helper to check for admin role
-const isAdmin = (req: AuthRequest, res: Response, next: any) => {
-    if (req.userRole !== 'admin') {
-        return res.status(403).json({ error: 'Forbidden: Admin access required' });
-    }
-    next();
-};
 
 // Get all game rankings
 router.get('/', optionalAuthenticate, async (req: AuthRequest, res: Response) => {
     try {
         const rankings = await prisma.gameRanking.findMany({
+            where: { deletedAt: null },
             orderBy: { rating: 'desc' }
         });
         res.json(rankings);
@@ -27,8 +21,8 @@ router.get('/', optionalAuthenticate, async (req: AuthRequest, res: Response) =>
     }
 });
 
-// Create a game ranking (Admin only)
-router.post('/', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Create a game ranking (requires gamerankings:write)
+router.post('/', authenticate, requirePermission(PERMISSIONS.GAMERANKINGS_WRITE), async (req: AuthRequest, res: Response) => {
     const { gameName, rating, genre, comment } = req.body;
 
     if (!gameName || rating === undefined || !genre) {
@@ -46,8 +40,10 @@ router.post('/', authenticate, isAdmin, async (req: AuthRequest, res: Response)
                 rating,
                 genre,
                 comment,
+                authorId: req.userId,
             },
         });
+        await recordAudit(req, { action: 'create', entityType: 'GameRanking', entityId: ranking.id, after: ranking });
         res.json(ranking);
     } catch (error) {
         console.error('Create game ranking error:', error);
@@ -55,8 +51,8 @@ router.post('/', authenticate, isAdmin, async (req: AuthRequest, res: Response)
     }
 });
 
-// Update a game ranking (Admin only)
-router.put('/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Update a game ranking (requires gamerankings:write)
+router.put('/:id', authenticate, requirePermission(PERMISSIONS.GAMERANKINGS_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { gameName, rating, genre, comment } = req.body;
 
@@ -65,8 +61,9 @@ router.put('/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response
     }
 
     try {
+        const before = await prisma.gameRanking.findFirst({ where: { id: parseInt(id as string), deletedAt: null } });
         const ranking = await prisma.gameRanking.update({
-            where: { id: parseInt(id as string) },
+            where: { id: parseInt(id as string), deletedAt: null },
             data: {
                 gameName,
                 rating,
@@ -74,6 +71,7 @@ router.put('/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response
                 comment,
             },
         });
+        await recordAudit(req, { action: 'update', entityType: 'GameRanking', entityId: ranking.id, before, after: ranking });
         res.json(ranking);
     } catch (error) {
         console.error('Update game ranking error:', error);
@@ -81,13 +79,16 @@ router.put('/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response
     }
 });
 
-// Delete a game ranking (Admin only)
-router.delete('/:id', authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+// Move a game ranking to the trash (requires gamerankings:write)
+router.delete('/:id', authenticate, requirePermission(PERMISSIONS.GAMERANKINGS_WRITE), async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     try {
-        await prisma.gameRanking.delete({
-            where: { id: parseInt(id as string) },
+        const before = await prisma.gameRanking.findFirst({ where: { id: parseInt(id as string), deletedAt: null } });
+        const ranking = await prisma.gameRanking.update({
+            where: { id: parseInt(id as string), deletedAt: null },
+            data: { deletedAt: new Date() },
         });
+        await recordAudit(req, { action: 'delete', entityType: 'GameRanking', entityId: ranking.id, before });
         res.status(204).send();
     } catch (error) {
         console.error('Delete game ranking error:', error);
@@ -0,0 +1,93 @@
+import { Router, Response } from 'express';
+import crypto from 'crypto';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../utils/permissions';
+import { recordAudit } from '../utils/audit';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+
+const invitationStatus = (invitation: { usedAt: Date | null; revokedAt: Date | null; expiresAt: Date }) => {
+    if (invitation.usedAt) return 'used';
+    if (invitation.revokedAt) return 'revoked';
+    if (invitation.expiresAt <= new Date()) return 'expired';
+    return 'pending';
+};
+
+// List invitations (requires users:manage)
+router.get('/', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+        const invitations = await prisma.invitation.findMany({
+            orderBy: { createdAt: 'desc' },
+            include: {
+                createdBy: { select: { username: true } },
+                usedBy: { select: { username: true } },
+            },
+        });
+        res.json(invitations.map(invitation => ({ ...invitation, status: invitationStatus(invitation) })));
+    } catch (error) {
+        console.error('Fetch invitations error:', error);
+        res.status(500).json({ error: 'Failed to fetch invitations' });
+    }
+});
+
+// Create a single-use invitation code (requires users:manage)
+router.post('/', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { role = 'user', expiresInDays = DEFAULT_EXPIRY_DAYS } = req.body;
+
+    const days = Number(expiresInDays);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+        return res.status(400).json({ error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` });
+    }
+
+    try {
+        if (!(await prisma.role.findUnique({ where: { name: String(role) } }))) {
+            return res.status(400).json({ error: 'Unknown role' });
+        }
+
+        const invitation = await prisma.invitation.create({
+            data: {
+                code: crypto.randomBytes(12).toString('base64url'),
+                role: String(role),
+                expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+                createdById: req.userId,
+            },
+        });
+        // The code itself stays out of the audit trail: it is a credential until used
+        const { code, ...audited } = invitation;
+        await recordAudit(req, { action: 'create', entityType: 'Invitation', entityId: invitation.id, after: audited });
+        res.status(201).json({ ...invitation, status: invitationStatus(invitation) });
+    } catch (error) {
+        console.error('Create invitation error:', error);
+        res.status(500).json({ error: 'Failed to create invitation' });
+    }
+});
+
+// Revoke an unused invitation (requires users:manage)
+router.delete('/:id', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const invitation = await prisma.invitation.findUnique({ where: { id: parseInt(id as string) } });
+        if (!invitation) {
+            return res.status(404).json({ error: 'Invitation not found' });
+        }
+        if (invitation.usedAt) {
+            return res.status(409).json({ error: 'Invitation has already been used' });
+        }
+
+        await prisma.invitation.update({
+            where: { id: invitation.id },
+            data: { revokedAt: invitation.revokedAt ?? new Date() },
+        });
+        await recordAudit(req, { action: 'revoke', entityType: 'Invitation', entityId: invitation.id });
+        res.status(204).send();
+    } catch (error) {
+        console.error('Revoke invitation error:', error);
+        res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+});
+
+export default router;
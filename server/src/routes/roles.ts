@@ -0,0 +1,149 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS, PROTECTED_ROLES } from '../utils/permissions';
+import { recordAudit } from '../utils/audit';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const roleInclude = {
+    permissions: { select: { permission: { select: { key: true } } } },
+    _count: { select: { users: true } },
+} satisfies Prisma.RoleInclude;
+
+const serializeRole = (role: Prisma.RoleGetPayload<{ include: typeof roleInclude }>) => ({
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions.map(rp => rp.permission.key),
+    userCount: role._count.users,
+});
+
+// Resolve permission keys to ids, or null if one of them is unknown
+const resolvePermissionIds = async (keys: unknown) => {
+    if (!Array.isArray(keys)) return null;
+    const permissions = await prisma.permission.findMany({ where: { key: { in: keys.map(String) } } });
+    if (permissions.length !== new Set(keys).size) return null;
+    return permissions.map(p => p.id);
+};
+
+// List roles with their permissions (requires users:manage)
+router.get('/', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+        const roles = await prisma.role.findMany({ include: roleInclude, orderBy: { name: 'asc' } });
+        res.json(roles.map(serializeRole));
+    } catch (error) {
+        console.error('Fetch roles error:', error);
+        res.status(500).json({ error: 'Failed to fetch roles' });
+    }
+});
+
+// List every known permission (requires users:manage)
+router.get('/permissions', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+        const permissions = await prisma.permission.findMany({ orderBy: { key: 'asc' } });
+        res.json(permissions);
+    } catch (error) {
+        console.error('Fetch permissions error:', error);
+        res.status(500).json({ error: 'Failed to fetch permissions' });
+    }
+});
+
+// Create a role (requires users:manage)
+router.post('/', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { name, description, permissions = [] } = req.body;
+    if (!name || !/^[a-z][a-z0-9_-]*$/.test(name)) {
+        return res.status(400).json({ error: 'Role name is required (lowercase letters, digits, - and _)' });
+    }
+
+    try {
+        const permissionIds = await resolvePermissionIds(permissions);
+        if (!permissionIds) {
+            return res.status(400).json({ error: 'Unknown permission' });
+        }
+
+        const role = await prisma.role.create({
+            data: {
+                name,
+                description,
+                permissions: { create: permissionIds.map(permissionId => ({ permissionId })) },
+            },
+            include: roleInclude,
+        });
+        await recordAudit(req, { action: 'create', entityType: 'Role', entityId: role.id, after: serializeRole(role) });
+        res.status(201).json(serializeRole(role));
+    } catch (error) {
+        console.error('Create role error:', error);
+        res.status(400).json({ error: 'Role already exists or invalid data' });
+    }
+});
+
+// Update a role's description and permission set (requires users:manage)
+router.put('/:id', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const { description, permissions } = req.body;
+
+    try {
+        const role = await prisma.role.findUnique({ where: { id: parseInt(id as string) }, include: roleInclude });
+        if (!role) {
+            return res.status(404).json({ error: 'Role not found' });
+        }
+
+        let permissionIds: number[] | null = null;
+        if (permissions !== undefined) {
+            if (PROTECTED_ROLES.includes(role.name)) {
+                return res.status(400).json({ error: `Permissions of role '${role.name}' cannot be changed` });
+            }
+            permissionIds = await resolvePermissionIds(permissions);
+            if (!permissionIds) {
+                return res.status(400).json({ error: 'Unknown permission' });
+            }
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            if (permissionIds) {
+                await tx.rolePermission.deleteMany({ where: { roleId: role.id } });
+                await tx.rolePermission.createMany({
+                    data: permissionIds.map(permissionId => ({ roleId: role.id, permissionId })),
+                });
+            }
+            return tx.role.update({
+                where: { id: role.id },
+                data: { description },
+                include: roleInclude,
+            });
+        });
+        await recordAudit(req, { action: 'update', entityType: 'Role', entityId: role.id, before: serializeRole(role), after: serializeRole(updated) });
+        res.json(serializeRole(updated));
+    } catch (error) {
+        console.error('Update role error:', error);
+        res.status(500).json({ error: 'Failed to update role' });
+    }
+});
+
+// Delete a role that is no longer assigned (requires users:manage)
+router.delete('/:id', authenticate, requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    try {
+        const role = await prisma.role.findUnique({ where: { id: parseInt(id as string) }, include: roleInclude });
+        if (!role) {
+            return res.status(404).json({ error: 'Role not found' });
+        }
+        if (PROTECTED_ROLES.includes(role.name) || role.name === 'user') {
+            return res.status(400).json({ error: `Role '${role.name}' cannot be deleted` });
+        }
+        if (role._count.users > 0) {
+            return res.status(409).json({ error: 'Role is still assigned to users' });
+        }
+
+        await prisma.role.delete({ where: { id: role.id } });
+        await recordAudit(req, { action: 'delete', entityType: 'Role', entityId: role.id, before: serializeRole(role) });
+        res.status(204).send();
+    } catch (error) {
+        console.error('Delete role error:', error);
+        res.status(409).json({ error: 'Role is still referenced (pending invitations?)' });
+    }
+});
+
+export default router;
@@ -0,0 +1,196 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { PERMISSIONS } from '../utils/permissions';
+import { publicPostWhere } from '../utils/blogPublication';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const SNIPPET_LENGTH = 200;
+
+type SearchType = 'blog' | 'photo' | 'painting' | 'gameranking' | 'videogame';
+
+interface SearchDocument {
+    id: number;
+    title: string;
+    body: string;
+    url: string;
+}
+
+interface SearchSource {
+    table: string;
+    titleColumn: string;
+    bodyColumn: string;
+    // SQL condition of the rows visible to the public, applied before the limit
+    visible: Prisma.Sql;
+    // Load the matching rows still visible to the public
+    load: (ids: number[]) => Promise<SearchDocument[]>;
+}
+
+// Drop Markdown syntax and image references so blog snippets read as plain text
+const stripMarkdown = (content: string) => content
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#*_>`~|]/g, ' ');
+
+const notDeleted = Prisma.sql`"deletedAt" IS NULL`;
+
+const SOURCES: Record<SearchType, SearchSource> = {
+    blog: {
+        table: 'BlogPost',
+        titleColumn: 'title',
+        bodyColumn: 'content',
+        // Same rule as publicPostWhere()
+        visible: Prisma.sql`"deletedAt" IS NULL AND ("status" = 'published' OR ("status" = 'scheduled' AND "publishedAt" <= now()))`,
+        load: async ids => (await prisma.blogPost.findMany({ where: { id: { in: ids }, ...publicPostWhere() } }))
+            .map(post => ({ id: post.id, title: post.title, body: stripMarkdown(post.content), url: `/blog/${post.slug}` })),
+    },
+    photo: {
+        table: 'Photo',
+        titleColumn: 'name',
+        bodyColumn: 'tag',
+        visible: notDeleted,
+        load: async ids => (await prisma.photo.findMany({ where: { id: { in: ids }, deletedAt: null } }))
+            .map(photo => ({ id: photo.id, title: photo.name, body: photo.tag, url: `/gallery/${photo.id}` })),
+    },
+    painting: {
+        table: 'PaintingProject',
+        titleColumn: 'title',
+        bodyColumn: 'description',
+        visible: notDeleted,
+        load: async ids => (await prisma.paintingProject.findMany({ where: { id: { in: ids }, deletedAt: null } }))
+            .map(project => ({ id: project.id, title: project.title, body: project.description, url: `/painting-projects/${project.id}` })),
+    },
+    gameranking: {
+        table: 'GameRanking',
+        titleColumn: 'gameName',
+        bodyColumn: 'comment',
+        visible: notDeleted,
+        load: async ids => (await prisma.gameRanking.findMany({ where: { id: { in: ids }, deletedAt: null } }))
+            .map(ranking => ({ id: ranking.id, title: ranking.gameName, body: ranking.comment || '', url: '/gameranking' })),
+    },
+    videogame: {
+        table: 'VideoGame',
+        titleColumn: 'title',
+        bodyColumn: 'why',
+        // Same visibility as the public wishlist
+        visible: Prisma.sql`"deletedAt" IS NULL AND EXISTS (
+            SELECT 1 FROM "User" u
+            JOIN "Role" r ON r."name" = u."role"
+            JOIN "RolePermission" rp ON rp."roleId" = r."id"
+            JOIN "Permission" p ON p."id" = rp."permissionId"
+            WHERE u."id" = "VideoGame"."userId" AND p."key" = ${PERMISSIONS.VIDEOGAMES_WRITE}
+        )`,
+        load: async ids => (await prisma.videoGame.findMany({
+            where: {
+                id: { in: ids },
+                deletedAt: null,
+                user: { roleRef: { permissions: { some: { permission: { key: PERMISSIONS.VIDEOGAMES_WRITE } } } } },
+            },
+        })).map(game => ({ id: game.id, title: game.title, body: game.why, url: '/videogames' })),
+    },
+};
+
+const SEARCH_TYPES = Object.keys(SOURCES) as SearchType[];
+
+// Must stay identical to the GIN index expressions of the full text search migration
+const searchDocument = (source: SearchSource) => Prisma.raw(['french', 'english']
+    .map(config => [
+        `setweight(to_tsvector('${config}', f_unaccent(coalesce("${source.titleColumn}", ''))), 'A')`,
+        `setweight(to_tsvector('${config}', f_unaccent(coalesce("${source.bodyColumn}", ''))), 'B')`,
+    ].join(' || '))
+    .join(' || '));
+
+const searchQuery = (q: string) =>
+    Prisma.sql`(websearch_to_tsquery('french', f_unaccent(${q})) || websearch_to_tsquery('english', f_unaccent(${q})))`;
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Plain text excerpt around the first matching word, HTML-escaped, with matches in <mark>.
+ * Words match on a shortened prefix of each search term, a rough stand-in for the stemming
+ * PostgreSQL applied (peintures -> peintur matches peinture).
+ */
+export function highlightSnippet(text: string, q: string) {
+    const stems = normalize(q)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(term => term.length >= MIN_QUERY_LENGTH && term !== 'or')
+        .map(term => (term.length > 5 ? term.slice(0, term.length - 2) : term));
+    const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)];
+    const isMatch = (word: string) => stems.some(stem => normalize(word).startsWith(stem));
+
+    const first = words.find(word => isMatch(word[0]));
+    let start = first ? Math.max(0, first.index! - SNIPPET_LENGTH / 4) : 0;
+    // Start on a word boundary
+    const boundary = words.find(word => word.index! >= start);
+    start = start > 0 && boundary ? boundary.index! : 0;
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+    const escape = (value: string) => value
+        .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+    let html = start > 0 ? '… ' : '';
+    let cursor = start;
+    for (const word of words) {
+        const wordStart = word.index!;
+        const wordEnd = wordStart + word[0].length;
+        if (wordStart < start) continue;
+        if (wordEnd > end) break;
+        if (isMatch(word[0])) {
+            html += `${escape(text.slice(cursor, wordStart))}<mark>${escape(word[0])}</mark>`;
+            cursor = wordEnd;
+        }
+    }
+    html += escape(text.slice(cursor, end)).replace(/\s+/g, ' ');
+    return end < text.length ? `${html.trimEnd()} …` : html;
+}
+
+// Search public content. Query: q (websearch syntax: "exact phrase", -excluded, or), types=blog,photo,..., limit
+router.get('/', async (req: Request, res: Response) => {
+    const q = String(req.query.q || '').trim();
+    if (q.length < MIN_QUERY_LENGTH || q.length > MAX_QUERY_LENGTH) {
+        return res.status(400).json({ error: `Search query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters` });
+    }
+    const types = req.query.types ? String(req.query.types).split(',') : SEARCH_TYPES;
+    if (types.some(type => !SEARCH_TYPES.includes(type as SearchType))) {
+        return res.status(400).json({ error: `Types must be among: ${SEARCH_TYPES.join(', ')}` });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    try {
+        const results = [];
+        for (const type of types as SearchType[]) {
+            const source = SOURCES[type];
+            const document = searchDocument(source);
+            const matches = await prisma.$queryRaw<{ id: number; rank: number }[]>`
+                SELECT "id", ts_rank(${document}, search.query) AS rank
+                FROM ${Prisma.raw(`"${source.table}"`)}, (SELECT ${searchQuery(q)} AS query) search
+                WHERE ${source.visible} AND ${document} @@ search.query
+                ORDER BY rank DESC
+                LIMIT ${limit}
+            `;
+            const ranks = new Map(matches.map(match => [match.id, match.rank]));
+            for (const doc of await source.load(matches.map(match => match.id))) {
+                results.push({
+                    type,
+                    id: doc.id,
+                    title: doc.title,
+                    url: doc.url,
+                    snippet: highlightSnippet(doc.body, q),
+                    rank: ranks.get(doc.id) ?? 0,
+                });
+            }
+        }
+        results.sort((a, b) => b.rank - a.rank);
+        res.json({ query: q, results: results.slice(0, limit) });
+    } catch (error) {
+        console.error('Search error:', error);
+        res.status(500).json({ error: 'Search failed' });
+    }
+});
+
+export default router;
@@ -0,0 +1,143 @@
+import { Router, Response } from 'express';
+import { authenticate, hasPermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS, PermissionKey } from '../utils/permissions';
+import { recordAudit } from '../utils/audit';
+import { getPurgeDate } from '../utils/trashPurge';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+interface TrashedItem {
+    id: number;
+    label: string;
+    deletedAt: Date | null;
+}
+
+interface TrashType {
+    permission: PermissionKey;
+    entityType: string;
+    list: (userId: number) => Promise<TrashedItem[]>;
+    // Clears deletedAt; returns the restored row, or null when it is not in the trash
+    restore: (id: number, userId: number) => Promise<object | null>;
+}
+
+const trashed = { deletedAt: { not: null } };
+const newestFirst = { deletedAt: 'desc' as const };
+
+// Todos and video games are personal: only their owner sees and restores them
+const TRASH_TYPES: Record<string, TrashType> = {
+    'todos': {
+        permission: PERMISSIONS.TODOS_MANAGE,
+        entityType: 'Todo',
+        list: async userId => (await prisma.todo.findMany({ where: { ...trashed, userId }, orderBy: newestFirst }))
+            .map(todo => ({ id: todo.id, label: todo.description, deletedAt: todo.deletedAt })),
+        restore: async (id, userId) => {
+            const { count } = await prisma.todo.updateMany({ where: { id, userId, ...trashed }, data: { deletedAt: null } });
+            return count ? prisma.todo.findUnique({ where: { id } }) : null;
+        },
+    },
+    'videogames': {
+        permission: PERMISSIONS.VIDEOGAMES_WRITE,
+        entityType: 'VideoGame',
+        list: async userId => (await prisma.videoGame.findMany({ where: { ...trashed, userId }, orderBy: newestFirst }))
+            .map(game => ({ id: game.id, label: game.title, deletedAt: game.deletedAt })),
+        restore: async (id, userId) => {
+            const { count } = await prisma.videoGame.updateMany({ where: { id, userId, ...trashed }, data: { deletedAt: null } });
+            return count ? prisma.videoGame.findUnique({ where: { id } }) : null;
+        },
+    },
+    'blog': {
+        permission: PERMISSIONS.BLOG_WRITE,
+        entityType: 'BlogPost',
+        list: async () => (await prisma.blogPost.findMany({ where: trashed, orderBy: newestFirst }))
+            .map(post => ({ id: post.id, label: post.title, deletedAt: post.deletedAt })),
+        restore: async id => {
+            const { count } = await prisma.blogPost.updateMany({ where: { id, ...trashed }, data: { deletedAt: null } });
+            return count ? prisma.blogPost.findUnique({ where: { id }, include: { images: true } }) : null;
+        },
+    },
+    'photos': {
+        permission: PERMISSIONS.GALLERY_WRITE,
+        entityType: 'Photo',
+        list: async () => (await prisma.photo.findMany({ where: trashed, orderBy: newestFirst }))
+            .map(photo => ({ id: photo.id, label: photo.name, deletedAt: photo.deletedAt })),
+        restore: async id => {
+            const { count } = await prisma.photo.updateMany({ where: { id, ...trashed }, data: { deletedAt: null } });
+            return count ? prisma.photo.findUnique({ where: { id } }) : null;
+        },
+    },
+    'gamerankings': {
+        permission: PERMISSIONS.GAMERANKINGS_WRITE,
+        entityType: 'GameRanking',
+        list: async () => (await prisma.gameRanking.findMany({ where: trashed, orderBy: newestFirst }))
+            .map(ranking => ({ id: ranking.id, label: ranking.gameName, deletedAt: ranking.deletedAt })),
+        restore: async id => {
+            const { count } = await prisma.gameRanking.updateMany({ where: { id, ...trashed }, data: { deletedAt: null } });
+            return count ? prisma.gameRanking.findUnique({ where: { id } }) : null;
+        },
+    },
+    'painting-projects': {
+        permission: PERMISSIONS.PAINTING_WRITE,
+        entityType: 'PaintingProject',
+        list: async () => (await prisma.paintingProject.findMany({ where: trashed, orderBy: newestFirst }))
+            .map(project => ({ id: project.id, label: project.title, deletedAt: project.deletedAt })),
+        restore: async id => {
+            const { count } = await prisma.paintingProject.updateMany({ where: { id, ...trashed }, data: { deletedAt: null } });
+            return count ? prisma.paintingProject.findUnique({ where: { id }, include: { images: true } }) : null;
+        },
+    },
+};
+
+// List trashed items of every type the user may manage, or of ?type= only
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+    const { type } = req.query;
+    if (type && !TRASH_TYPES[String(type)]) {
+        return res.status(400).json({ error: 'Unknown trash type' });
+    }
+
+    const types = Object.entries(TRASH_TYPES)
+        .filter(([key, config]) => (!type || key === type) && hasPermission(req, config.permission));
+    if (type && types.length === 0) {
+        return res.status(403).json({ error: `Forbidden: '${TRASH_TYPES[String(type)].permission}' permission required` });
+    }
+
+    try {
+        const items = [];
+        for (const [key, config] of types) {
+            for (const item of await config.list(req.userId!)) {
+                items.push({ type: key, ...item, purgeAt: item.deletedAt ? getPurgeDate(item.deletedAt) : null });
+            }
+        }
+        items.sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+        res.json(items);
+    } catch (error) {
+        console.error('Fetch trash error:', error);
+        res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+});
+
+// Restore a trashed item
+router.post('/:type/:id/restore', authenticate, async (req: AuthRequest, res: Response) => {
+    const { type, id } = req.params;
+    const config = TRASH_TYPES[String(type)];
+    if (!config) {
+        return res.status(400).json({ error: 'Unknown trash type' });
+    }
+    if (!hasPermission(req, config.permission)) {
+        return res.status(403).json({ error: `Forbidden: '${config.permission}' permission required` });
+    }
+
+    try {
+        const item = await config.restore(parseInt(id as string), req.userId!);
+        if (!item) {
+            return res.status(404).json({ error: 'Item not found in trash' });
+        }
+        await recordAudit(req, { action: 'restore', entityType: config.entityType, entityId: parseInt(id as string), after: item as Record<string, unknown> });
+        res.json(item);
+    } catch (error) {
+        console.error('Restore trash item error:', error);
+        res.status(500).json({ error: 'Failed to restore item' });
+    }
+});
+
+export default router;
@@ -0,0 +1,174 @@
+import { Router, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { generateTotpSecret, otpauthUri, verifyTotp, generateRecoveryCodes, consumeRecoveryCode } from '../utils/totp';
+import { throttleKeys, userThrottleKey, getRetryAfterMs, recordFailure, clearFailures } from '../utils/loginThrottle';
+import { sendThrottled, sendLocked, registerFailedLogin } from '../utils/accountLockout';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+// Current 2FA state of the logged-in account
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        res.json({ enabled: user.totpEnabled, recoveryCodesLeft: user.totpRecoveryCodes.length });
+    } catch (error) {
+        console.error('Fetch 2FA status error:', error);
+        res.status(500).json({ error: 'Failed to fetch two-factor status' });
+    }
+});
+
+// Start enrollment: generate a secret, not active until confirmed with a code
+router.post('/setup', authenticate, async (req: AuthRequest, res: Response) => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.totpEnabled) {
+            return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+        }
+
+        const secret = generateTotpSecret();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { totpSecret: secret, totpLastUsedStep: null, totpRecoveryCodes: [] },
+        });
+        res.json({ secret, otpauthUrl: otpauthUri(secret, user.username) });
+    } catch (error) {
+        console.error('2FA setup error:', error);
+        res.status(500).json({ error: 'Failed to start two-factor setup' });
+    }
+});
+
+// Confirm enrollment with a first code; recovery codes are only shown in this response
+router.post('/enable', authenticate, async (req: AuthRequest, res: Response) => {
+    const { code } = req.body;
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.totpEnabled) {
+            return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+        }
+        if (!user.totpSecret) {
+            return res.status(400).json({ error: 'Start the two-factor setup first' });
+        }
+
+        const step = verifyTotp(user.totpSecret, code);
+        if (step === null) {
+            return res.status(400).json({ error: 'Invalid verification code' });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { totpEnabled: true, totpLastUsedStep: step, totpRecoveryCodes: hashes },
+        });
+        res.json({ enabled: true, recoveryCodes: codes });
+    } catch (error) {
+        console.error('2FA enable error:', error);
+        res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
+});
+
+// Turn 2FA off: requires the password and a current code or a recovery code.
+// Failures count towards the same throttling and lockout as login, a stolen access token is not enough to guess them.
+router.post('/disable', authenticate, async (req: AuthRequest, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+    if (!password || (!code && !recoveryCode)) {
+        return res.status(400).json({ error: 'Password and verification code are required' });
+    }
+
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (!user.totpEnabled || !user.totpSecret) {
+            return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+        }
+
+        const keys = throttleKeys(req.ip, user.username);
+        const retryAfterMs = getRetryAfterMs(keys);
+        if (retryAfterMs > 0) {
+            return sendThrottled(res, retryAfterMs);
+        }
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+            return sendLocked(res, user.lockedUntil);
+        }
+
+        const rejectAttempt = async (status: number, error: string) => {
+            recordFailure(keys);
+            const lockedUntil = await registerFailedLogin(user.id);
+            if (lockedUntil) {
+                return sendLocked(res, lockedUntil);
+            }
+            return res.status(status).json({ error });
+        };
+
+        if (!(await bcrypt.compare(password, user.password))) {
+            return rejectAttempt(403, 'Invalid password');
+        }
+
+        const verified = code
+            ? verifyTotp(user.totpSecret, String(code), user.totpLastUsedStep) !== null
+            : await consumeRecoveryCode(user.id, recoveryCode);
+        if (!verified) {
+            return rejectAttempt(400, 'Invalid verification code');
+        }
+
+        clearFailures([userThrottleKey(user.username)]);
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                totpEnabled: false,
+                totpSecret: null,
+                totpLastUsedStep: null,
+                totpRecoveryCodes: [],
+                failedLoginCount: 0,
+                lockedUntil: null,
+            },
+        });
+        res.json({ enabled: false });
+    } catch (error) {
+        console.error('2FA disable error:', error);
+        res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+    }
+});
+
+// Replace the recovery codes (the old ones stop working), requires a current code
+router.post('/recovery-codes', authenticate, async (req: AuthRequest, res: Response) => {
+    const { code } = req.body;
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId } });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (!user.totpEnabled || !user.totpSecret) {
+            return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+        }
+
+        const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+        if (step === null) {
+            return res.status(400).json({ error: 'Invalid verification code' });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { totpLastUsedStep: step, totpRecoveryCodes: hashes },
+        });
+        res.json({ recoveryCodes: codes });
+    } catch (error) {
+        console.error('Regenerate recovery codes error:', error);
+        res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+    }
+});
+
+export default router;
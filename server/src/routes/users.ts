@@ -0,0 +1,215 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import multer from 'multer';
+import sharp from 'sharp';
+import fs from 'fs';
+import path from 'path';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { AVATAR_DIR, PAINTING_URL, ensureDir } from '../utils/uploads';
+import { withSrcset } from '../utils/imagePipeline';
+import { publicPostWhere } from '../utils/blogPublication';
+import { prisma } from '../prisma';
+
+const router = Router();
+
+ensureDir(AVATAR_DIR);
+
+const AVATAR_SIZE = 256;
+const MAX_DISPLAY_NAME = 60;
+const MAX_BIO = 1000;
+const MAX_LINKS = 10;
+
+const avatarUpload = multer({
+    storage: multer.diskStorage({
+        destination: (_req, _file, cb) => cb(null, AVATAR_DIR),
+        filename: (_req, file, cb) => cb(null, `temp-${Date.now()}-${file.originalname}`)
+    }),
+    limits: { fileSize: 5 * 1024 * 1024 },
+    fileFilter: (_req, file, cb) => {
+        const allowedTypes = /jpeg|jpg|png|webp|avif/;
+        const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
+        const mimetype = allowedTypes.test(file.mimetype);
+        if (extname && mimetype) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only image files are allowed'));
+        }
+    }
+});
+
+const profileSelect = {
+    id: true,
+    username: true,
+    displayName: true,
+    bio: true,
+    avatarFilename: true,
+    links: true,
+    createdAt: true,
+} satisfies Prisma.UserSelect;
+
+const serializeProfile = (user: Prisma.UserGetPayload<{ select: typeof profileSelect }>) => ({
+    ...user,
+    avatarUrl: user.avatarFilename ? `/uploads/avatars/${user.avatarFilename}` : null,
+});
+
+const removeAvatarFile = (filename: string | null) => {
+    if (!filename) return;
+    const filePath = path.join(AVATAR_DIR, filename);
+    if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+    }
+};
+
+// Links are a list of { label, url } with http(s) urls only; returns null when invalid
+const parseLinks = (links: unknown) => {
+    if (!Array.isArray(links) || links.length > MAX_LINKS) return null;
+    const parsed: { label: string; url: string }[] = [];
+    for (const link of links) {
+        if (!link || typeof link.label !== 'string' || typeof link.url !== 'string') return null;
+        try {
+            const url = new URL(link.url);
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+            parsed.push({ label: link.label.trim().slice(0, 60), url: url.toString() });
+        } catch (error) {
+            return null;
+        }
+    }
+    return parsed;
+};
+
+// Own profile, as edited in the settings screen
+router.get('/me/profile', authenticate, async (req: AuthRequest, res: Response) => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: req.userId }, select: profileSelect });
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        res.json(serializeProfile(user));
+    } catch (error) {
+        console.error('Fetch profile error:', error);
+        res.status(500).json({ error: 'Failed to fetch profile' });
+    }
+});
+
+// Update display name, bio and links of the logged-in user
+router.put('/me/profile', authenticate, async (req: AuthRequest, res: Response) => {
+    const { displayName, bio, links } = req.body;
+    const data: Prisma.UserUpdateInput = {};
+
+    if (displayName !== undefined) {
+        if (displayName !== null && (typeof displayName !== 'string' || displayName.length > MAX_DISPLAY_NAME)) {
+            return res.status(400).json({ error: `Display name must be at most ${MAX_DISPLAY_NAME} characters` });
+        }
+        data.displayName = displayName?.trim() || null;
+    }
+    if (bio !== undefined) {
+        if (bio !== null && (typeof bio !== 'string' || bio.length > MAX_BIO)) {
+            return res.status(400).json({ error: `Bio must be at most ${MAX_BIO} characters` });
+        }
+        data.bio = bio?.trim() || null;
+    }
+    if (links !== undefined) {
+        const parsed = parseLinks(links ?? []);
+        if (!parsed) {
+            return res.status(400).json({ error: `Links must be at most ${MAX_LINKS} { label, url } entries with http(s) urls` });
+        }
+        data.links = parsed;
+    }
+
+    try {
+        const user = await prisma.user.update({ where: { id: req.userId }, data, select: profileSelect });
+        res.json(serializeProfile(user));
+    } catch (error) {
+        console.error('Update profile error:', error);
+        res.status(500).json({ error: 'Failed to update profile' });
+    }
+});
+
+// Upload an avatar: cropped square and converted to AVIF like the other images
+router.post('/me/avatar', authenticate, avatarUpload.single('avatar'), async (req: AuthRequest, res: Response) => {
+    if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const tempPath = req.file.path;
+    try {
+        const filename = `avatar-${req.userId}-${Date.now()}.avif`;
+        await sharp(tempPath)
+            .rotate()
+            .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+            .avif({ quality: 70 })
+            .toFile(path.join(AVATAR_DIR, filename));
+
+        const previous = await prisma.user.findUnique({ where: { id: req.userId }, select: { avatarFilename: true } });
+        const user = await prisma.user.update({
+            where: { id: req.userId },
+            data: { avatarFilename: filename },
+            select: profileSelect,
+        });
+        removeAvatarFile(previous?.avatarFilename ?? null);
+        res.json(serializeProfile(user));
+    } catch (error) {
+        console.error('Upload avatar error:', error);
+        res.status(500).json({ error: 'Failed to upload avatar' });
+    } finally {
+        if (fs.existsSync(tempPath)) {
+            fs.unlinkSync(tempPath);
+        }
+    }
+});
+
+router.delete('/me/avatar', authenticate, async (req: AuthRequest, res: Response) => {
+    try {
+        const previous = await prisma.user.findUnique({ where: { id: req.userId }, select: { avatarFilename: true } });
+        await prisma.user.update({ where: { id: req.userId }, data: { avatarFilename: null } });
+        removeAvatarFile(previous?.avatarFilename ?? null);
+        res.status(204).send();
+    } catch (error) {
+        console.error('Delete avatar error:', error);
+        res.status(500).json({ error: 'Failed to delete avatar' });
+    }
+});
+
+// Public author page: profile plus the author's posts, rankings and painting projects
+router.get('/:username', async (req: Request, res: Response) => {
+    const { username } = req.params;
+    try {
+        const user = await prisma.user.findFirst({
+            where: { username: String(username), disabledAt: null },
+            select: {
+                ...profileSelect,
+                blogPosts: {
+                    where: publicPostWhere(),
+                    select: { id: true, title: true, slug: true, createdAt: true, publishedAt: true },
+                    orderBy: { publishedAt: 'desc' },
+                },
+                gameRankings: {
+                    where: { deletedAt: null },
+                    select: { id: true, gameName: true, rating: true, genre: true },
+                    orderBy: { rating: 'desc' },
+                },
+                paintingProjects: {
+                    where: { deletedAt: null },
+                    select: { id: true, title: true, status: true, images: { take: 1, orderBy: { id: 'asc' }, include: { variants: true } } },
+                    orderBy: { createdAt: 'desc' },
+                },
+            },
+        });
+        if (!user) {
+            return res.status(404).json({ error: 'Author not found' });
+        }
+
+        const { blogPosts, gameRankings, paintingProjects, ...profile } = user;
+        res.json({
+            ...serializeProfile(profile),
+            blogPosts,
+            gameRankings,
+            paintingProjects: paintingProjects.map(project => ({ ...project, images: project.images.map(image => withSrcset(image, PAINTING_URL)) })),
+        });
+    } catch (error) {
+        console.error('Fetch author error:', error);
+        res.status(500).json({ error: 'Failed to fetch author' });
+    }
+});
+
+export default router;
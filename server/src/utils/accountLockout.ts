@@ -0,0 +1,71 @@
+import { Response } from 'express';
+import { prisma } from '../prisma';
+
+// Persistent lockout: every MAX_FAILED_LOGINS consecutive failures lock the account,
+// for a duration that doubles each time (15 min, 30 min, 1 h... capped at 24 h)
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_BASE_MS = 15 * 60 * 1000;
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// End of the lock due after this many consecutive failures, null if none is due
+const lockoutEnd = (failedLoginCount: number) => {
+    if (failedLoginCount % MAX_FAILED_LOGINS !== 0) return null;
+    const lockouts = failedLoginCount / MAX_FAILED_LOGINS;
+    return new Date(Date.now() + Math.min(LOCKOUT_BASE_MS * 2 ** (lockouts - 1), LOCKOUT_MAX_MS));
+};
+
+export const sendThrottled = (res: Response, retryAfterMs: number) => {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({ error: 'Too many login attempts, please try again later', retryAfter });
+};
+
+export const sendLocked = (res: Response, lockedUntil: Date) =>
+    res.status(423).json({ error: 'Account temporarily locked after too many failed attempts', lockedUntil });
+
+// Record a failed password or code for an existing user; returns the lock end if the account just got locked
+export const registerFailedLogin = async (userId: number) => {
+    const user = await prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginCount: { increment: 1 } },
+    });
+    const lockedUntil = lockoutEnd(user.failedLoginCount);
+    if (!lockedUntil) return null;
+
+    await prisma.user.update({ where: { id: userId }, data: { lockedUntil } });
+    console.warn('Account locked after repeated login failures:', { userId, lockedUntil });
+    return lockedUntil;
+};
+
+// Unknown usernames go through the same lockout, kept in memory: if only existing accounts ever
+// answered 423, the response would tell which usernames exist
+interface UnknownUserEntry {
+    failedLoginCount: number;
+    lockedUntil: Date | null;
+    lastFailureAt: number;
+}
+
+const unknownUsers = new Map<string, UnknownUserEntry>();
+
+export const unknownUserLockedUntil = (username: string) => unknownUsers.get(username)?.lockedUntil ?? null;
+
+export const registerFailedUnknownLogin = (username: string) => {
+    const entry = unknownUsers.get(username) ?? { failedLoginCount: 0, lockedUntil: null, lastFailureAt: 0 };
+    entry.failedLoginCount += 1;
+    entry.lastFailureAt = Date.now();
+    const lockedUntil = lockoutEnd(entry.failedLoginCount);
+    if (lockedUntil) entry.lockedUntil = lockedUntil;
+    unknownUsers.set(username, entry);
+    return lockedUntil;
+};
+
+// Forget names once unlocked and quiet for the longest lock, so the map does not grow forever
+setInterval(() => {
+    const now = Date.now();
+    for (const [username, entry] of unknownUsers) {
+        if ((!entry.lockedUntil || entry.lockedUntil.getTime() < now) && now - entry.lastFailureAt > LOCKOUT_MAX_MS) {
+            unknownUsers.delete(username);
+        }
+    }
+}, SWEEP_INTERVAL_MS).unref();
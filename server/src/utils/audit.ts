@@ -0,0 +1,72 @@
+import { Prisma } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { prisma } from '../prisma';
+
+type Snapshot = Record<string, unknown> | null | undefined;
+
+// Never copied into the audit trail
+const REDACTED_FIELDS = ['password', 'totpSecret', 'totpRecoveryCodes'];
+// Change on every write and would only add noise to the diff
+const IGNORED_FIELDS = ['updatedAt'];
+
+export interface AuditEntry {
+    action: string;
+    entityType: string;
+    entityId?: number | string | null;
+    before?: Snapshot;
+    after?: Snapshot;
+}
+
+// JSON round-trip so Dates become strings, exactly as they end up in the Json column
+const toJson = (value: Snapshot) => {
+    if (!value) return null;
+    const json = JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+    REDACTED_FIELDS.forEach(field => delete json[field]);
+    return json;
+};
+
+/**
+ * Reduce two snapshots of an entity to the fields that differ.
+ * Creations and deletions (one side missing) keep the full snapshot.
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot) {
+    const from = toJson(before);
+    const to = toJson(after);
+    if (!from || !to) return { before: from, after: to };
+
+    const changedFrom: Record<string, unknown> = {};
+    const changedTo: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (IGNORED_FIELDS.includes(key)) continue;
+        if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+            changedFrom[key] = from[key];
+            changedTo[key] = to[key];
+        }
+    }
+    return { before: changedFrom, after: changedTo };
+}
+
+// Record who did what. Failures are logged only: auditing must never break the mutation itself.
+export async function recordAudit(req: AuthRequest, entry: AuditEntry) {
+    try {
+        const { before, after } = diffSnapshots(entry.before, entry.after);
+        const actor = req.userId
+            ? await prisma.user.findUnique({ where: { id: req.userId }, select: { username: true } })
+            : null;
+
+        await prisma.auditEvent.create({
+            data: {
+                action: entry.action,
+                entityType: entry.entityType,
+                entityId: entry.entityId != null ? String(entry.entityId) : null,
+                before: (before as Prisma.InputJsonObject | null) ?? Prisma.JsonNull,
+                after: (after as Prisma.InputJsonObject | null) ?? Prisma.JsonNull,
+                ip: req.ip,
+                userId: req.userId,
+                username: actor?.username,
+            },
+        });
+    } catch (error) {
+        console.error('Audit record error:', error);
+    }
+}
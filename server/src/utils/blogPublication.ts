@@ -0,0 +1,76 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export const BLOG_STATUSES = ['draft', 'scheduled', 'published'] as const;
+export type BlogStatus = typeof BLOG_STATUSES[number];
+
+/**
+ * Posts visible to the public. Scheduled posts whose time has come are included even
+ * before the scheduler flips them, so publication never depends on its timing.
+ */
+export const publicPostWhere = (): Prisma.BlogPostWhereInput => ({
+    deletedAt: null,
+    OR: [
+        { status: 'published' },
+        { status: 'scheduled', publishedAt: { lte: new Date() } },
+    ],
+});
+
+export class PublicationError extends Error {}
+
+/**
+ * Resolve the status and publication date sent by an editor.
+ * Drafts have no date, scheduled posts need a future one, and published posts keep
+ * their previous past date (or the given one) so republishing doesn't bump them to the top.
+ */
+export function resolvePublication(status: unknown, publishedAt: unknown, previousPublishedAt: Date | null = null) {
+    if (!BLOG_STATUSES.includes(status as BlogStatus)) {
+        throw new PublicationError(`Status must be one of: ${BLOG_STATUSES.join(', ')}`);
+    }
+
+    let date: Date | null = null;
+    if (publishedAt) {
+        date = new Date(String(publishedAt));
+        if (isNaN(date.getTime())) {
+            throw new PublicationError('Invalid publication date');
+        }
+    }
+
+    switch (status as BlogStatus) {
+        case 'draft':
+            return { status: 'draft', publishedAt: null };
+        case 'scheduled':
+            if (!date || date <= new Date()) {
+                throw new PublicationError('Scheduled posts need a publication date in the future');
+            }
+            return { status: 'scheduled', publishedAt: date };
+        case 'published':
+            if (date && date > new Date()) {
+                throw new PublicationError('Use the scheduled status for a future publication date');
+            }
+            if (!date && previousPublishedAt && previousPublishedAt <= new Date()) {
+                return { status: 'published', publishedAt: previousPublishedAt };
+            }
+            return { status: 'published', publishedAt: date ?? new Date() };
+    }
+}
+
+// Flip scheduled posts whose publication time has passed
+export async function publishDuePosts() {
+    const { count } = await prisma.blogPost.updateMany({
+        where: { status: 'scheduled', publishedAt: { lte: new Date() } },
+        data: { status: 'published' },
+    });
+    if (count > 0) {
+        console.log(`Blog scheduler: ${count} post(s) published`);
+    }
+}
+
+// Run once at startup, then every minute
+export function startBlogScheduler() {
+    const run = () => publishDuePosts().catch(error => console.error('Blog scheduler error:', error));
+    run();
+    setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+}
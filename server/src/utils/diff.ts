@@ -0,0 +1,65 @@
+export interface DiffLine {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+// Largest LCS table built (16 MB); bigger rewrites are shown as removed then added
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level diff of two texts (longest common subsequence).
+ * Common leading and trailing lines are skipped before building the LCS table,
+ * which keeps typical edits of long posts cheap. Past MAX_LCS_CELLS, the changed
+ * section is listed as entirely removed then entirely added.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const n = endA - start;
+    const m = endB - start;
+    const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'equal', text }));
+    if (n * m > MAX_LCS_CELLS) {
+        a.slice(start, endA).forEach(text => lines.push({ type: 'removed', text }));
+        b.slice(start, endB).forEach(text => lines.push({ type: 'added', text }));
+        a.slice(endA).forEach(text => lines.push({ type: 'equal', text }));
+        return lines;
+    }
+
+    // lcs[i * (m + 1) + j]: LCS length of a[start + i..endA) and b[start + j..endB)
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && a[start + i] === b[start + j]) {
+            lines.push({ type: 'equal', text: a[start + i] });
+            i++;
+            j++;
+        } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+            lines.push({ type: 'removed', text: a[start + i] });
+            i++;
+        } else {
+            lines.push({ type: 'added', text: b[start + j] });
+            j++;
+        }
+    }
+    a.slice(endA).forEach(text => lines.push({ type: 'equal', text }));
+    return lines;
+}
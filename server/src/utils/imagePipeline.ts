@@ -0,0 +1,224 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import fs from 'fs';
+import path from 'path';
+import { removeUpload } from './uploads';
+
+// Widths generated for every uploaded image, never upscaled
+export const VARIANT_SIZES = [
+    { size: 'thumb', width: 400 },
+    { size: 'medium', width: 1024 },
+    { size: 'large', width: 2048 },
+] as const;
+
+// AVIF for browsers that support it, WebP as the fallback
+export const VARIANT_FORMATS = ['avif', 'webp'] as const;
+type VariantFormat = typeof VARIANT_FORMATS[number];
+
+const MASTER_QUALITY = 80;
+// Longest side of the stored full-size file, larger uploads are scaled down
+export const MAX_DIMENSION = 2560;
+const VARIANT_QUALITY: Record<VariantFormat, number> = { avif: 60, webp: 80 };
+
+export interface VariantFile {
+    size: string;
+    format: string;
+    filename: string;
+    width: number;
+    height: number;
+}
+
+// Shooting details read from the EXIF of the upload, the only metadata that outlives processing
+export interface CameraMetadata {
+    cameraMake: string | null;
+    cameraModel: string | null;
+    lensModel: string | null;
+    // Millimetres
+    focalLength: number | null;
+    // f-number
+    aperture: number | null;
+    // Seconds
+    exposureTime: number | null;
+    iso: number | null;
+    takenAt: Date | null;
+}
+
+// Shown by clients while the real file loads
+export interface ImagePlaceholder {
+    // Blurry base64 data URL a few pixels wide
+    placeholder: string;
+    // #rrggbb
+    dominantColor: string;
+}
+
+export interface ProcessedImage {
+    // Full-size AVIF, kept as the reference file of the image
+    filename: string;
+    width: number;
+    height: number;
+    variants: VariantFile[];
+    preview: ImagePlaceholder;
+    // Null unless requested, or when the upload has no EXIF
+    camera: CameraMetadata | null;
+}
+
+export interface ProcessOptions {
+    // Prepended to the generated filename
+    prefix?: string;
+    // Resized copies are skipped for images only shown at a single size
+    variants?: boolean;
+    // Extract the shooting details before the metadata is dropped
+    cameraMetadata?: boolean;
+}
+
+export interface ResponsiveSources {
+    avif: string;
+    webp: string;
+}
+
+const PLACEHOLDER_WIDTH = 16;
+const MAX_TEXT_LENGTH = 100;
+
+const text = (value: unknown) =>
+    typeof value === 'string' && value.replace(/\0/g, '').trim() ? value.replace(/\0/g, '').trim().slice(0, MAX_TEXT_LENGTH) : null;
+const positive = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null);
+
+/**
+ * Whitelisted shooting details from a raw EXIF block. Location, serial numbers and
+ * every other tag are ignored. Returns null when the block is unreadable.
+ */
+export function readCameraMetadata(exif: Buffer): CameraMetadata | null {
+    let tags: exifReader.Exif;
+    try {
+        tags = exifReader(exif);
+    } catch {
+        return null;
+    }
+    const { Image: image = {}, Photo: photo = {} } = tags;
+    // Some cameras write the ISO as a list
+    const iso = positive(Array.isArray(photo.ISOSpeedRatings) ? photo.ISOSpeedRatings[0] : photo.ISOSpeedRatings);
+    const takenAt = photo.DateTimeOriginal instanceof Date && !isNaN(photo.DateTimeOriginal.getTime()) ? photo.DateTimeOriginal : null;
+    return {
+        cameraMake: text(image.Make),
+        cameraModel: text(image.Model),
+        lensModel: text(photo.LensModel),
+        focalLength: positive(photo.FocalLength),
+        aperture: positive(photo.FNumber),
+        exposureTime: positive(photo.ExposureTime),
+        iso: iso === null ? null : Math.round(iso),
+        takenAt,
+    };
+}
+
+// Stored files must never carry EXIF (GPS, serial numbers), XMP or IPTC blocks
+async function assertNoMetadata(file: string) {
+    const { exif, xmp, iptc } = await sharp(file).metadata();
+    if (exif || xmp || iptc) {
+        throw new Error(`Metadata left in processed image ${path.basename(file)}`);
+    }
+}
+
+const hex = (channel: number) => channel.toString(16).padStart(2, '0');
+
+// Tiny WebP preview (a couple hundred bytes, stored inline) and dominant colour of a stored image
+export async function computePlaceholder(file: string): Promise<ImagePlaceholder> {
+    const [preview, { dominant }] = await Promise.all([
+        sharp(file).resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 50 }).toBuffer(),
+        sharp(file).stats(),
+    ]);
+    return {
+        placeholder: `data:image/webp;base64,${preview.toString('base64')}`,
+        dominantColor: `#${hex(dominant.r)}${hex(dominant.g)}${hex(dominant.b)}`,
+    };
+}
+
+const encode = (image: sharp.Sharp, format: VariantFormat) =>
+    format === 'avif' ? image.avif({ quality: VARIANT_QUALITY.avif }) : image.webp({ quality: VARIANT_QUALITY.webp });
+
+/**
+ * Write every size/format variant of a stored image next to it, named after it
+ * (photo.avif -> photo-thumb.avif, photo-thumb.webp...).
+ */
+export async function generateVariants(dir: string, filename: string): Promise<VariantFile[]> {
+    const source = path.join(dir, filename);
+    const base = path.parse(filename).name;
+    const variants: VariantFile[] = [];
+    try {
+        for (const { size, width } of VARIANT_SIZES) {
+            for (const format of VARIANT_FORMATS) {
+                const variantFilename = `${base}-${size}.${format}`;
+                const info = await encode(sharp(source).resize({ width, withoutEnlargement: true }), format)
+                    .toFile(path.join(dir, variantFilename));
+                variants.push({ size, format, filename: variantFilename, width: info.width, height: info.height });
+            }
+        }
+    } catch (error) {
+        // No partial set left behind, including the file being written when it failed
+        VARIANT_SIZES.forEach(({ size }) => VARIANT_FORMATS.forEach(format => removeUpload(dir, `${base}-${size}.${format}`)));
+        throw error;
+    }
+    return variants;
+}
+
+/**
+ * Convert an uploaded file to a full-size AVIF with a random name, generate its variants
+ * and placeholder, then remove the upload. The EXIF orientation is applied to the pixels first and the size
+ * is clamped to MAX_DIMENSION. The output is re-encoded without any metadata, which is checked
+ * before anything is derived from it.
+ */
+export async function processImage(
+    uploadPath: string,
+    dir: string,
+    { prefix = '', variants = true, cameraMetadata = false }: ProcessOptions = {},
+): Promise<ProcessedImage> {
+    const filename = `${prefix}${Date.now()}-${Math.round(Math.random() * 1E9)}.avif`;
+    const output = path.join(dir, filename);
+    let variantFiles: VariantFile[] = [];
+    try {
+        const { exif } = await sharp(uploadPath).metadata();
+        const info = await sharp(uploadPath)
+            .rotate()
+            .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: 'inside', withoutEnlargement: true })
+            .avif({ quality: MASTER_QUALITY })
+            .toFile(output);
+        await assertNoMetadata(output);
+        if (variants) {
+            variantFiles = await generateVariants(dir, filename);
+        }
+        return {
+            filename,
+            width: info.width,
+            height: info.height,
+            variants: variantFiles,
+            preview: await computePlaceholder(output),
+            camera: cameraMetadata && exif ? readCameraMetadata(exif) : null,
+        };
+    } catch (error) {
+        removeUpload(dir, filename);
+        variantFiles.forEach(variant => removeUpload(dir, variant.filename));
+        throw error;
+    } finally {
+        if (fs.existsSync(uploadPath)) {
+            fs.unlinkSync(uploadPath);
+        }
+    }
+}
+
+// srcset attribute values per format, smallest first. Small originals yield identical widths, listed once.
+export function buildSrcset(urlPrefix: string, variants: { format: string; filename: string; width: number }[]): ResponsiveSources | null {
+    if (variants.length === 0) return null;
+    const srcset = (format: VariantFormat) => {
+        const byWidth = new Map<number, string>();
+        variants
+            .filter(variant => variant.format === format)
+            .forEach(variant => byWidth.set(variant.width, `${urlPrefix}/${encodeURIComponent(variant.filename)} ${variant.width}w`));
+        return [...byWidth].sort(([a], [b]) => a - b).map(([, entry]) => entry).join(', ');
+    };
+    return { avif: srcset('avif'), webp: srcset('webp') };
+}
+
+// API shape of an image: its variants folded into a ready-to-use srcset (null until they are generated)
+export function withSrcset<T extends { variants: { format: string; filename: string; width: number }[] }>(image: T, urlPrefix: string) {
+    const { variants, ...rest } = image;
+    return { ...rest, srcset: buildSrcset(urlPrefix, variants) };
+}
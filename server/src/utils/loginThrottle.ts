@@ -0,0 +1,74 @@
+// In-memory throttling of failed logins, per IP and per username, with exponential backoff.
+// State is lost on restart, which is acceptable: the persistent account lockout lives on User.
+
+interface ThrottleEntry {
+    failures: number;
+    blockedUntil: number;
+    lastFailureAt: number;
+}
+
+interface ThrottlePolicy {
+    freeAttempts: number; // failures tolerated before any delay is imposed
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+// IPs get more slack than usernames since several people can share one address
+const POLICIES: Record<'ip' | 'user', ThrottlePolicy> = {
+    ip: { freeAttempts: 10, baseDelayMs: 1000, maxDelayMs: 15 * 60 * 1000 },
+    user: { freeAttempts: 3, baseDelayMs: 1000, maxDelayMs: 15 * 60 * 1000 },
+};
+
+const FORGET_AFTER_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+const entries = new Map<string, ThrottleEntry>();
+
+export const userThrottleKey = (username: string) => `user:${username.toLowerCase()}`;
+
+export const throttleKeys = (ip: string | undefined, username: string) => [
+    `ip:${ip || 'unknown'}`,
+    userThrottleKey(username),
+];
+
+const policyFor = (key: string) => (key.startsWith('ip:') ? POLICIES.ip : POLICIES.user);
+
+// Milliseconds to wait before another attempt is allowed for any of the keys (0 if none)
+export function getRetryAfterMs(keys: string[]) {
+    const now = Date.now();
+    return keys.reduce((max, key) => {
+        const entry = entries.get(key);
+        return entry ? Math.max(max, entry.blockedUntil - now) : max;
+    }, 0);
+}
+
+export function recordFailure(keys: string[]) {
+    const now = Date.now();
+    for (const key of keys) {
+        const policy = policyFor(key);
+        const entry = entries.get(key) ?? { failures: 0, blockedUntil: 0, lastFailureAt: now };
+        entry.failures += 1;
+        entry.lastFailureAt = now;
+
+        const excess = entry.failures - policy.freeAttempts;
+        if (excess > 0) {
+            const delay = Math.min(policy.baseDelayMs * 2 ** (excess - 1), policy.maxDelayMs);
+            entry.blockedUntil = now + delay;
+        }
+        entries.set(key, entry);
+    }
+}
+
+export function clearFailures(keys: string[]) {
+    keys.forEach(key => entries.delete(key));
+}
+
+// Drop entries that have been quiet for a while so the map does not grow forever
+setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+        if (entry.blockedUntil < now && now - entry.lastFailureAt > FORGET_AFTER_MS) {
+            entries.delete(key);
+        }
+    }
+}, SWEEP_INTERVAL_MS).unref();
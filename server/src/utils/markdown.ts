@@ -0,0 +1,234 @@
+import { Marked, MarkedExtension, Token, Tokens } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { slugify } from './slug';
+
+// CommonMark + GFM (tables, strikethrough, autolinks). Single newlines stay line breaks,
+// as posts written before Markdown support relied on them.
+const MARKED_OPTIONS: MarkedExtension = { gfm: true, breaks: true, async: false };
+
+// Uploaded images are referenced from the content as ![caption](image:42)
+const IMAGE_REF = /^image:(\d+)$/;
+
+const EXCERPT_LENGTH = 200;
+const WORDS_PER_MINUTE = 200;
+// Headings listed in the table of contents
+const TOC_MAX_DEPTH = 3;
+
+export interface InlineImage {
+    id: number;
+    filename: string;
+    width: number | null;
+    height: number | null;
+    alt: string | null;
+    caption: string | null;
+    placeholder: string | null;
+    dominantColor: string | null;
+}
+
+// A type rather than an interface: entries stay plain JSON objects, stored as is in BlogPost.toc
+export type TocEntry = {
+    depth: number;
+    text: string;
+    id: string;
+};
+
+export interface ContentMetadata {
+    excerpt: string;
+    wordCount: number;
+    readingTimeMinutes: number;
+    toc: TocEntry[];
+}
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        ...sanitizeHtml.defaults.allowedTags,
+        'img', 'del', 'input',
+    ],
+    allowedAttributes: {
+        a: ['href', 'title', 'rel', 'target'],
+        img: ['src', 'alt', 'title', 'width', 'height', 'loading', 'style'],
+        code: ['class'],
+        figure: ['class'],
+        // Anchors for the table of contents
+        h1: ['id'], h2: ['id'], h3: ['id'], h4: ['id'], h5: ['id'], h6: ['id'],
+        th: ['align'],
+        td: ['align'],
+        ol: ['start'],
+        // GFM task list checkboxes
+        input: ['type', 'checked', 'disabled'],
+    },
+    // Only the loading placeholder set by renderMarkdown, any other style is dropped
+    allowedStyles: {
+        img: {
+            'background-color': [/^#[0-9a-f]{6}$/i],
+            'background-image': [/^url\("data:image\/webp;base64,[a-z0-9+/=]+"\)$/i],
+            'background-size': [/^cover$/],
+        },
+    },
+    allowedClasses: {
+        code: [/^language-[\w-]+$/],
+        figure: ['blog-figure'],
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: { img: ['http', 'https'] },
+    allowProtocolRelative: false,
+    transformTags: {
+        a: sanitizeHtml.simpleTransform('a', { rel: 'noopener noreferrer nofollow', target: '_blank' }),
+        img: sanitizeHtml.simpleTransform('img', { loading: 'lazy' }),
+        input: (tagName, attribs) => ({
+            tagName,
+            attribs: attribs.type === 'checkbox' ? { type: 'checkbox', disabled: '', ...(attribs.checked !== undefined ? { checked: '' } : {}) } : {},
+        }),
+    },
+    exclusiveFilter: frame => frame.tag === 'input' && frame.attribs.type !== 'checkbox',
+};
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const parseImageRef = (href: string) => {
+    const match = IMAGE_REF.exec(href);
+    return match ? parseInt(match[1]) : null;
+};
+
+// Text of inline tokens without their Markdown syntax; images are left out
+const plainText = (tokens: Token[] = []): string => tokens
+    .map(token => {
+        if (token.type === 'image') return '';
+        if ('tokens' in token && token.tokens) return plainText(token.tokens);
+        return 'text' in token ? token.text : '';
+    })
+    .join('');
+
+// Anchor ids for headings, in document order, deduplicated like GitHub does (titre, titre-1...)
+const headingIdGenerator = () => {
+    const seen = new Map<string, number>();
+    return (text: string) => {
+        const base = slugify(text) || 'section';
+        const count = seen.get(base) ?? 0;
+        seen.set(base, count + 1);
+        return count === 0 ? base : `${base}-${count}`;
+    };
+};
+
+// Ids of every uploaded image referenced by the content
+export function findImageReferences(source: string): number[] {
+    const marked = new Marked(MARKED_OPTIONS);
+    const ids = new Set<number>();
+    marked.walkTokens(marked.lexer(source), token => {
+        if (token.type !== 'image') return;
+        const id = parseImageRef((token as Tokens.Image).href);
+        if (id !== null) ids.add(id);
+    });
+    return [...ids];
+}
+
+// References to images that are not part of the given post images
+export function findUnknownImageReferences(source: string, images: { id: number }[]): number[] {
+    return findImageReferences(source).filter(id => !images.some(image => image.id === id));
+}
+
+/**
+ * Render Markdown source to HTML that is safe to inject as-is in the page.
+ * Image references are resolved against the post images: a reference alone on its
+ * line becomes a captioned figure, one inside text a plain inline image.
+ */
+export function renderMarkdown(source: string, images: InlineImage[] = []): string {
+    const imageTag = (token: Tokens.Image) => {
+        const image = images.find(candidate => candidate.id === parseImageRef(token.href));
+        // Unknown references are rejected on save; drop the ones left dangling
+        if (!image) return null;
+        const caption = token.text || image.caption || '';
+        const alt = image.alt || caption;
+        // Known dimensions let the browser reserve the space before the file loads
+        const size = image.width && image.height ? ` width="${image.width}" height="${image.height}"` : '';
+        // Blurry preview painted behind the image while it loads, as ResponsiveImage does for the other images
+        const preview = [
+            image.dominantColor && `background-color:${image.dominantColor}`,
+            image.placeholder && `background-image:url("${image.placeholder}");background-size:cover`,
+        ].filter(Boolean).join(';');
+        const style = preview ? ` style="${escapeHtml(preview)}"` : '';
+        return {
+            html: `<img src="/uploads/blog/${encodeURIComponent(image.filename)}" alt="${escapeHtml(alt)}"${size}${style} />`,
+            caption,
+        };
+    };
+
+    const headingId = headingIdGenerator();
+    const marked = new Marked(MARKED_OPTIONS, {
+        renderer: {
+            heading(token) {
+                return `<h${token.depth} id="${headingId(plainText(token.tokens))}">${this.parser.parseInline(token.tokens)}</h${token.depth}>\n`;
+            },
+            paragraph(token) {
+                const [only] = token.tokens;
+                if (token.tokens.length !== 1 || only.type !== 'image' || parseImageRef((only as Tokens.Image).href) === null) {
+                    return false;
+                }
+                const figure = imageTag(only as Tokens.Image);
+                if (!figure) return '';
+                const caption = figure.caption ? `<figcaption>${escapeHtml(figure.caption)}</figcaption>` : '';
+                return `<figure class="blog-figure">${figure.html}${caption}</figure>\n`;
+            },
+            image(token) {
+                if (parseImageRef(token.href) === null) return false;
+                return imageTag(token)?.html ?? '';
+            },
+        },
+    });
+
+    const html = marked.parse(source) as string;
+    return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+/**
+ * Metadata shown on list cards and article pages: a plain text excerpt of the first
+ * paragraphs, word count, reading time and the h1-h3 table of contents.
+ * Heading ids match the ones given by renderMarkdown.
+ */
+export function analyzeMarkdown(source: string): ContentMetadata {
+    const marked = new Marked(MARKED_OPTIONS);
+    const headingId = headingIdGenerator();
+    const toc: TocEntry[] = [];
+    const paragraphs: string[] = [];
+    const words: string[] = [];
+
+    marked.walkTokens(marked.lexer(source), token => {
+        if (token.type === 'heading') {
+            const text = plainText((token as Tokens.Heading).tokens);
+            const id = headingId(text);
+            if (token.depth <= TOC_MAX_DEPTH) toc.push({ depth: token.depth, text, id });
+        } else if (token.type === 'paragraph') {
+            const text = plainText((token as Tokens.Paragraph).tokens).replace(/\s+/g, ' ').trim();
+            if (text) paragraphs.push(text);
+        }
+        // Leaf tokens only, so nested text is counted once
+        if (token.type === 'text' || token.type === 'codespan' || token.type === 'code') {
+            if (!('tokens' in token && token.tokens)) words.push(...token.text.split(/\s+/).filter(Boolean));
+        }
+    });
+
+    let excerpt = paragraphs.join(' ');
+    if (excerpt.length > EXCERPT_LENGTH) {
+        const cut = excerpt.slice(0, EXCERPT_LENGTH);
+        excerpt = `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : EXCERPT_LENGTH).trimEnd()}…`;
+    }
+
+    return {
+        excerpt,
+        wordCount: words.length,
+        readingTimeMinutes: Math.max(1, Math.round(words.length / WORDS_PER_MINUTE)),
+        toc,
+    };
+}
+
+// Rendered HTML and metadata (excerpt, reading time, table of contents) stored alongside the Markdown source
+export function renderPostContent(content: string, images: InlineImage[] = []) {
+    return {
+        contentHtml: renderMarkdown(content, images),
+        ...analyzeMarkdown(content),
+    };
+}
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+
+// Password rules applied on registration, password change and reset.
+// Tunable through PASSWORD_MIN_LENGTH; the common-password list ships in config/.
+
+const DEFAULT_MIN_LENGTH = 10;
+const MAX_LENGTH = 72; // bcrypt silently ignores everything after 72 bytes
+const COMMON_PASSWORDS_FILE = path.join(__dirname, '../../config/common-passwords.txt');
+
+const minLength = () => {
+    const value = parseInt(process.env.PASSWORD_MIN_LENGTH || '');
+    return Number.isFinite(value) && value > 0 ? Math.min(value, MAX_LENGTH) : DEFAULT_MIN_LENGTH;
+};
+
+let commonPasswords: Set<string> | null = null;
+
+// Loaded once, on first use. A missing file disables the check rather than blocking every signup.
+const getCommonPasswords = () => {
+    if (!commonPasswords) {
+        try {
+            const lines = fs.readFileSync(COMMON_PASSWORDS_FILE, 'utf8').split(/\r?\n/);
+            commonPasswords = new Set(
+                lines.map(line => line.trim().toLowerCase()).filter(line => line && !line.startsWith('#'))
+            );
+        } catch (error) {
+            console.warn('Common password list not found, skipping that check:', COMMON_PASSWORDS_FILE);
+            commonPasswords = new Set();
+        }
+    }
+    return commonPasswords;
+};
+
+export const getPasswordPolicy = () => ({
+    minLength: minLength(),
+    maxLength: MAX_LENGTH,
+    rejectsCommonPasswords: getCommonPasswords().size > 0,
+    rejectsUsername: true,
+});
+
+/**
+ * Check a candidate password against the policy.
+ * Returns the list of violated rules, empty when the password is acceptable.
+ */
+export function validatePassword(password: unknown, username?: string): string[] {
+    if (typeof password !== 'string') return ['Password is required'];
+
+    const problems: string[] = [];
+    const min = minLength();
+    if (password.length < min) {
+        problems.push(`Password must be at least ${min} characters long`);
+    }
+    if (Buffer.byteLength(password, 'utf8') > MAX_LENGTH) {
+        problems.push(`Password must be at most ${MAX_LENGTH} bytes long`);
+    }
+
+    const normalized = password.trim().toLowerCase();
+    if (getCommonPasswords().has(normalized)) {
+        problems.push('Password is too common');
+    }
+    if (username && normalized.includes(username.trim().toLowerCase())) {
+        problems.push('Password must not contain the username');
+    }
+    return problems;
+}
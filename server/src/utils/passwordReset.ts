@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+
+// Reset tokens are handed over by an admin out of band, so they get a full day
+const RESET_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issue a single-use reset token for a user; any previous unused token stops working
+export async function issuePasswordReset(userId: number, createdById?: number) {
+    const token = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+
+    await prisma.$transaction([
+        prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } }),
+        prisma.passwordResetToken.create({
+            data: { tokenHash: hashToken(token), userId, createdById, expiresAt },
+        }),
+    ]);
+    return { token, expiresAt };
+}
+
+// Find the user a still-valid reset token belongs to, without consuming it
+export async function findPasswordReset(token: unknown) {
+    if (typeof token !== 'string' || !token) return null;
+    const reset = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: { select: { id: true, username: true } } },
+    });
+    if (!reset || reset.usedAt || reset.expiresAt <= new Date()) return null;
+    return reset;
+}
+
+// Mark a reset token as used. Returns false if it was consumed concurrently.
+export async function consumePasswordReset(resetId: number) {
+    const { count } = await prisma.passwordResetToken.updateMany({
+        where: { id: resetId, usedAt: null, expiresAt: { gt: new Date() } },
+        data: { usedAt: new Date() },
+    });
+    return count === 1;
+}
@@ -0,0 +1,28 @@
+import { prisma } from '../prisma';
+
+// Permission keys checked by requirePermission(). They are seeded in the Permission table by migration.
+export const PERMISSIONS = {
+    TODOS_MANAGE: 'todos:manage',
+    VIDEOGAMES_WRITE: 'videogames:write',
+    BLOG_WRITE: 'blog:write',
+    GALLERY_WRITE: 'gallery:write',
+    GAMERANKINGS_WRITE: 'gamerankings:write',
+    PAINTING_WRITE: 'painting:write',
+    USERS_MANAGE: 'users:manage',
+    AUDIT_READ: 'audit:read',
+    COMMENTS_MODERATE: 'comments:moderate',
+} as const;
+
+export type PermissionKey = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+// Roles whose permission set cannot be changed through the API, to avoid locking everyone out
+export const PROTECTED_ROLES = ['admin'];
+
+// Resolve the permission keys granted to a role name
+export async function getRolePermissions(role: string): Promise<string[]> {
+    const permissions = await prisma.rolePermission.findMany({
+        where: { role: { name: role } },
+        select: { permission: { select: { key: true } } },
+    });
+    return permissions.map(rp => rp.permission.key);
+}
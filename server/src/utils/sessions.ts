@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../prisma';
+
+// Access tokens are short-lived; the refresh token keeps the user logged in
+export const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days, sliding
+
+export interface AccessTokenPayload {
+    userId: number;
+    role: string;
+    sessionId: number;
+}
+
+interface SessionUser {
+    id: number;
+    username: string;
+    role: string;
+}
+
+interface SessionMeta {
+    ip?: string;
+    userAgent?: string;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const getJwtSecret = () => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error('JWT_SECRET is not defined');
+    return secret;
+};
+
+export const signAccessToken = (user: SessionUser, sessionId: number) => {
+    const payload: AccessTokenPayload = { userId: user.id, role: user.role, sessionId };
+    return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+};
+
+// Refresh tokens look like "<sessionId>.<secret>" so the session row can be found directly;
+// only a hash of the secret is stored.
+const parseRefreshToken = (refreshToken: unknown) => {
+    if (typeof refreshToken !== 'string') return null;
+    const [id, secret] = refreshToken.split('.');
+    const sessionId = parseInt(id);
+    if (isNaN(sessionId) || !secret) return null;
+    return { sessionId, secret };
+};
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+
+// Open a new session and return the token pair handed to the client
+export async function createSession(user: SessionUser, meta: SessionMeta = {}) {
+    const secret = newSecret();
+    const session = await prisma.session.create({
+        data: {
+            userId: user.id,
+            refreshTokenHash: hashToken(secret),
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+            ip: meta.ip,
+            userAgent: meta.userAgent,
+        },
+    });
+    return {
+        token: signAccessToken(user, session.id),
+        refreshToken: `${session.id}.${secret}`,
+    };
+}
+
+// Exchange a refresh token for a new token pair. The refresh token is rotated on every use;
+// presenting an already-rotated token revokes the whole session (it has probably leaked).
+export async function rotateSession(refreshToken: unknown, meta: SessionMeta = {}) {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) return null;
+
+    const session = await prisma.session.findUnique({
+        where: { id: parsed.sessionId },
+        include: { user: { select: { id: true, username: true, role: true, disabledAt: true } } },
+    });
+    if (!session || session.revokedAt || session.expiresAt < new Date() || session.user.disabledAt) return null;
+
+    const secret = newSecret();
+    const { count } = await prisma.session.updateMany({
+        where: { id: session.id, refreshTokenHash: hashToken(parsed.secret), revokedAt: null },
+        data: {
+            refreshTokenHash: hashToken(secret),
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+            lastUsedAt: new Date(),
+            ip: meta.ip,
+            userAgent: meta.userAgent,
+        },
+    });
+
+    if (count === 0) {
+        console.warn('Refresh token reuse detected, revoking session:', { sessionId: session.id, userId: session.userId });
+        await revokeSession(session.id);
+        return null;
+    }
+
+    return {
+        token: signAccessToken(session.user, session.id),
+        refreshToken: `${session.id}.${secret}`,
+        user: session.user,
+    };
+}
+
+// Revoke the session a refresh token belongs to (logout). Returns false if the token is unknown.
+export async function revokeRefreshToken(refreshToken: unknown) {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) return false;
+
+    const { count } = await prisma.session.updateMany({
+        where: { id: parsed.sessionId, refreshTokenHash: hashToken(parsed.secret), revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+    return count > 0;
+}
+
+export async function revokeSession(sessionId: number) {
+    await prisma.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+}
+
+// Revoke every live session of a user, optionally keeping the one making the request
+export async function revokeUserSessions(userId: number, exceptSessionId?: number) {
+    await prisma.session.updateMany({
+        where: { userId, revokedAt: null, ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}) },
+        data: { revokedAt: new Date() },
+    });
+}
+
+// Load a live session together with the user's current role and permissions.
+// Role changes therefore apply immediately, without waiting for a new access token.
+export async function getActiveSession(sessionId: number, userId: number) {
+    const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        include: {
+            user: {
+                select: {
+                    role: true,
+                    disabledAt: true,
+                    roleRef: { select: { permissions: { select: { permission: { select: { key: true } } } } } },
+                },
+            },
+        },
+    });
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= new Date() || session.user.disabledAt) {
+        return null;
+    }
+    return {
+        role: session.user.role,
+        permissions: session.user.roleRef.permissions.map(rp => rp.permission.key),
+    };
+}
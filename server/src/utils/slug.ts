@@ -0,0 +1,37 @@
+import { prisma } from '../prisma';
+
+// Utilitaire pour générer un slug à partir d'un titre
+export function slugify(str: string): string {
+    return str
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '') // retire les accents
+        .replace(/[^a-zA-Z0-9\s-]/g, '') // retire caractères spéciaux
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/-+/g, '-');
+}
+
+// A slug is taken by the current slug of another post, or by one of its former slugs (which still redirect)
+const isSlugTaken = async (slug: string, postId?: number) => {
+    const [post, former] = await Promise.all([
+        prisma.blogPost.findUnique({ where: { slug }, select: { id: true } }),
+        prisma.blogSlugHistory.findUnique({ where: { slug }, select: { blogPostId: true } }),
+    ]);
+    return (!!post && post.id !== postId) || (!!former && former.blogPostId !== postId);
+};
+
+/**
+ * Unique blog slug built from the given text, suffixed with -1, -2... until free.
+ * A post keeps the right to its own current and former slugs.
+ */
+export async function uniqueSlug(text: string, postId?: number) {
+    // Fallback si le texte ne contient que des caractères spéciaux
+    const baseSlug = slugify(text) || `article-${Date.now()}`;
+    let slug = baseSlug;
+    let suffix = 1;
+    while (await isSlugTaken(slug, postId)) {
+        slug = `${baseSlug}-${suffix++}`;
+    }
+    return slug;
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+
+// RFC 6238 TOTP (HMAC-SHA1, 30 s steps, 6 digits), compatible with the usual authenticator apps
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const WINDOW = 1; // accept the previous and next step to absorb clock drift
+const ISSUER = 'Praetor Scott';
+
+export function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+export function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+// RFC 4226 HOTP value for a counter
+const hotp = (secret: Buffer, counter: number) => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return binary.toString().padStart(DIGITS, '0');
+};
+
+export const currentTotpStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+/**
+ * Check a TOTP code. Returns the matching time step, or null if the code is wrong
+ * or belongs to a step already used (replay protection via lastUsedStep).
+ */
+export function verifyTotp(secret: string, code: unknown, lastUsedStep?: number | null): number | null {
+    if (typeof code !== 'string' || !/^\d{6}$/.test(code.trim())) return null;
+    const key = base32Decode(secret);
+    const current = currentTotpStep();
+    for (let step = current - WINDOW; step <= current + WINDOW; step++) {
+        if (lastUsedStep != null && step <= lastUsedStep) continue;
+        const expected = hotp(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code.trim()))) {
+            return step;
+        }
+    }
+    return null;
+}
+
+export const otpauthUri = (secret: string, username: string) => {
+    const label = encodeURIComponent(`${ISSUER}:${username}`);
+    const params = new URLSearchParams({ secret, issuer: ISSUER, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Recovery codes are random enough (50 bits) for a plain SHA-256 to be a safe storage format
+export const hashRecoveryCode = (code: string) =>
+    crypto.createHash('sha256').update(code.trim().toLowerCase().replace(/-/g, '')).digest('hex');
+
+export function generateRecoveryCodes(count = 10) {
+    const codes = Array.from({ length: count }, () => {
+        const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Use up a recovery code; false if the user does not have it. Removed in the database rather than
+// writing back a list read earlier: concurrent requests cannot reuse a code nor restore a consumed one.
+export async function consumeRecoveryCode(userId: number, code: unknown) {
+    const hash = hashRecoveryCode(String(code));
+    const count = await prisma.$executeRaw`
+        UPDATE "User" SET "totpRecoveryCodes" = array_remove("totpRecoveryCodes", ${hash})
+        WHERE "id" = ${userId} AND ${hash} = ANY("totpRecoveryCodes")`;
+    return count === 1;
+}
@@ -0,0 +1,69 @@
+import { UPLOADS_DIR, GALLERY_DIR, PAINTING_DIR, removeUpload } from './uploads';
+import { prisma } from '../prisma';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// An invalid value would make the purge cutoff an Invalid Date and every run fail
+const retentionDays = () => {
+    const raw = process.env.TRASH_RETENTION_DAYS;
+    if (raw === undefined || raw.trim() === '') return DEFAULT_RETENTION_DAYS;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`Invalid TRASH_RETENTION_DAYS "${raw}", using ${DEFAULT_RETENTION_DAYS} days`);
+        return DEFAULT_RETENTION_DAYS;
+    }
+    return value;
+};
+
+// Days a trashed item can still be restored before it is deleted for good
+export const TRASH_RETENTION_DAYS = retentionDays();
+
+export const getPurgeDate = (deletedAt: Date) =>
+    new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Permanently delete everything trashed before the retention window, files included.
+ * Files are removed before their rows so a crash never leaves orphaned uploads.
+ */
+export async function purgeTrash() {
+    const where = { deletedAt: { lt: new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000) } };
+
+    const posts = await prisma.blogPost.findMany({ where, include: { images: true } });
+    posts.forEach(post => post.images.forEach(image => removeUpload(UPLOADS_DIR, image.filename)));
+
+    const projects = await prisma.paintingProject.findMany({ where, include: { images: { include: { variants: true } } } });
+    projects.forEach(project => project.images.forEach(image => {
+        removeUpload(PAINTING_DIR, image.filename);
+        image.variants.forEach(variant => removeUpload(PAINTING_DIR, variant.filename));
+    }));
+
+    const photos = await prisma.photo.findMany({ where, include: { variants: true } });
+    photos.forEach(photo => {
+        removeUpload(GALLERY_DIR, photo.filename);
+        photo.variants.forEach(variant => removeUpload(GALLERY_DIR, variant.filename));
+    });
+
+    // Images of posts and projects, and image variants, go with them (onDelete: Cascade)
+    const counts = await prisma.$transaction([
+        prisma.blogPost.deleteMany({ where: { id: { in: posts.map(post => post.id) } } }),
+        prisma.paintingProject.deleteMany({ where: { id: { in: projects.map(project => project.id) } } }),
+        prisma.photo.deleteMany({ where: { id: { in: photos.map(photo => photo.id) } } }),
+        prisma.gameRanking.deleteMany({ where }),
+        prisma.videoGame.deleteMany({ where }),
+        prisma.todo.deleteMany({ where }),
+    ]);
+
+    const total = counts.reduce((sum, result) => sum + result.count, 0);
+    if (total > 0) {
+        console.log(`Trash purge: ${total} item(s) permanently deleted`);
+    }
+}
+
+// Run once at startup, then every hour
+export function startTrashPurge() {
+    const run = () => purgeTrash().catch(error => console.error('Trash purge error:', error));
+    run();
+    setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+
+// Upload directories shared by the routes, the controllers and the trash purge job.
+// Everything lives under one root, served statically as /uploads.
+
+export const UPLOADS_DIR = process.env.UPLOADS_DIR || path.join(__dirname, '../../uploads/blog');
+export const UPLOADS_ROOT = path.dirname(UPLOADS_DIR);
+export const GALLERY_DIR = path.join(UPLOADS_ROOT, 'gallery');
+export const PAINTING_DIR = path.join(UPLOADS_ROOT, 'painting');
+export const AVATAR_DIR = path.join(UPLOADS_ROOT, 'avatars');
+
+// Public URLs of the directories above
+export const GALLERY_URL = '/uploads/gallery';
+export const PAINTING_URL = '/uploads/painting';
+
+export const ensureDir = (dir: string) => {
+    if (!fs.existsSync(dir)) {
+        console.log(`Creating upload directory at: ${dir}`);
+        fs.mkdirSync(dir, { recursive: true });
+    }
+};
+
+// Remove a stored upload, ignoring names that would escape the directory
+export const removeUpload = (dir: string, filename: string) => {
+    if (filename.includes('..') || path.isAbsolute(filename) || filename.includes('/') || filename.includes('\\')) {
+        console.warn(`Tentative de path traversal détectée pour le fichier: ${filename}`);
+        return;
+    }
+    const filePath = path.join(dir, filename);
+    if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+    }
+};